@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { spawn } from 'child_process';
+import * as ghCli from './ghCli';
+import * as config from './config';
+import * as autoStopStore from './autoStopStore';
+import { AutoStopStore, OpenWindow } from './autoStopStore';
+import { Codespace } from './types';
+import { ensureError } from './utils/errors';
+import { log } from './extension';
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+// A window that missed this many heartbeats has crashed or was killed
+const WINDOW_TIMEOUT_MS = HEARTBEAT_INTERVAL_MS * 3;
+
+const windowId = randomUUID();
+let storeFile: string | undefined;
+let heartbeatTimer: NodeJS.Timeout | null = null;
+
+async function readStore(): Promise<AutoStopStore> {
+  return storeFile ? autoStopStore.readStore(storeFile) : { pendingStops: {}, windows: {} };
+}
+
+async function updateStore(update: (store: AutoStopStore) => void): Promise<void> {
+  if (!storeFile) {
+    return;
+  }
+  try {
+    await autoStopStore.updateStore(storeFile, (store) => {
+      update(store);
+      // Drop windows that went away without unregistering
+      for (const [id, window] of Object.entries(store.windows)) {
+        if (Date.now() - window.heartbeatAt > WINDOW_TIMEOUT_MS) {
+          delete store.windows[id];
+        }
+      }
+    });
+  } catch (err) {
+    log('Failed to save auto-stop state', ensureError(err));
+  }
+}
+
+/**
+ * Returns the other windows that are still open.
+ */
+async function getOtherWindows(): Promise<OpenWindow[]> {
+  return Object.entries((await readStore()).windows)
+    .filter(([id, window]) => id !== windowId && Date.now() - window.heartbeatAt <= WINDOW_TIMEOUT_MS)
+    .map(([, window]) => window);
+}
+
+function isPinned(codespace: Codespace): boolean {
+  const pinned = config.getAutoStopPinnedCodespaces();
+  return pinned.includes(codespace.name) || pinned.includes(codespace.displayName);
+}
+
+/**
+ * Starts the detached process that stops the codespaces once the grace period has passed.
+ * It skips codespaces whose stop was cancelled or that were used after it was scheduled.
+ */
+function spawnDeferredStop(codespaceNames: string[], scheduledAt: number, delayMs: number): void {
+  if (!storeFile) {
+    return;
+  }
+  try {
+    const child = spawn(
+      process.execPath,
+      [path.join(__dirname, 'deferredStop.js'), storeFile, String(scheduledAt), String(delayMs), ...codespaceNames],
+      {
+        detached: true,
+        stdio: 'ignore',
+        windowsHide: true,
+        // The editor's executable runs scripts like Node.js with this set
+        env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' },
+      }
+    );
+    child.unref();
+  } catch (err) {
+    log('Failed to start deferred auto-stop', ensureError(err));
+  }
+}
+
+/**
+ * Registers this window, and cancels the pending stops it makes unnecessary:
+ * the stop of the codespace it is connected to, and stops scheduled because
+ * the last window closed (a reload or reopening within the grace period).
+ * @param storagePath - The extension's global storage folder
+ * @param connectedCodespaceName - The codespace this window is connected to, if any
+ */
+export async function initialize(storagePath: string, connectedCodespaceName?: string): Promise<void> {
+  await fs.promises.mkdir(storagePath, { recursive: true });
+  storeFile = path.join(storagePath, autoStopStore.STORE_FILE_NAME);
+
+  await updateStore((store) => {
+    store.windows[windowId] = { connectedCodespaceName, heartbeatAt: Date.now() };
+    for (const [name, pendingStop] of Object.entries(store.pendingStops)) {
+      if (pendingStop.onExit || name === connectedCodespaceName) {
+        delete store.pendingStops[name];
+        log(`Cancelled auto-stop of codespace ${name}`);
+      }
+    }
+  });
+
+  heartbeatTimer = setInterval(() => {
+    void updateStore((store) => {
+      store.windows[windowId] = { connectedCodespaceName, heartbeatAt: Date.now() };
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+}
+
+/**
+ * Schedules codespaces to be stopped once the grace period has passed.
+ * With no grace period they are stopped immediately.
+ * @param codespaceNames - The codespaces to stop
+ * @param onExit - Whether the stop is due to the last window closing
+ */
+export async function scheduleStop(codespaceNames: string[], onExit = false): Promise<void> {
+  if (codespaceNames.length === 0) {
+    return;
+  }
+
+  const gracePeriodMs = config.getAutoStopGracePeriodSeconds() * 1000;
+  const scheduledAt = Date.now();
+
+  if (gracePeriodMs === 0) {
+    await Promise.all(
+      codespaceNames.map((name) =>
+        ghCli.stopCodespace(name).catch((err: unknown) => {
+          log(`Failed to auto-stop codespace ${name}`, ensureError(err));
+        })
+      )
+    );
+    return;
+  }
+
+  await updateStore((store) => {
+    for (const name of codespaceNames) {
+      store.pendingStops[name] = { scheduledAt, stopAt: scheduledAt + gracePeriodMs, onExit };
+      log(`Scheduled auto-stop of codespace ${name} in ${gracePeriodMs / 1000}s`);
+    }
+  });
+
+  // Runs outside this window, so the stop happens even if all windows close
+  spawnDeferredStop(codespaceNames, scheduledAt, gracePeriodMs);
+}
+
+/**
+ * Schedules stopping the running codespaces that should not outlive this window:
+ * the connected codespace if stopping on disconnect is enabled and no other window
+ * is connected to it, and, when this is the last window, all running codespaces
+ * except pinned ones if stopping on exit is enabled. Codespaces used again within
+ * the grace period are left running by the deferred stop.
+ * Called on deactivation, which covers both disconnecting and closing the window.
+ * @param connectedCodespaceName - The codespace this window is connected to, if any
+ */
+export async function scheduleStopOnExit(connectedCodespaceName?: string): Promise<void> {
+  const otherWindows = await getOtherWindows();
+  const inUse = new Set(otherWindows.map((window) => window.connectedCodespaceName).filter(Boolean));
+
+  const stopConnected =
+    !!connectedCodespaceName && config.getAutoStopOnDisconnect() && !inUse.has(connectedCodespaceName);
+  if (stopConnected && connectedCodespaceName) {
+    await scheduleStop([connectedCodespaceName]);
+  }
+
+  // Other windows still open means the editor is not exiting
+  if (!config.getAutoStopAllRunningOnExit() || otherWindows.length > 0) {
+    return;
+  }
+
+  try {
+    const codespaces = await ghCli.listCodespaces();
+    const names = codespaces
+      .filter((codespace) => codespace.state === 'Available' && !isPinned(codespace))
+      // Already scheduled above, where only reconnecting to it cancels the stop
+      .filter((codespace) => !(stopConnected && codespace.name === connectedCodespaceName))
+      .map((codespace) => codespace.name);
+    await scheduleStop(names, true);
+  } catch (err) {
+    log('Failed to list codespaces to auto-stop', ensureError(err));
+  }
+}
+
+/**
+ * Cancels a pending stop, e.g. because the codespace was reconnected.
+ * @param codespaceName - The codespace to keep running
+ */
+export async function cancel(codespaceName: string): Promise<void> {
+  if (!(await readStore()).pendingStops[codespaceName]) {
+    return;
+  }
+  await updateStore((store) => {
+    delete store.pendingStops[codespaceName];
+  });
+  log(`Cancelled auto-stop of codespace ${codespaceName}`);
+}
+
+/**
+ * Stops the heartbeat and unregisters this window.
+ * Pending stops are carried out by the deferred stop processes.
+ */
+export async function dispose(): Promise<void> {
+  if (heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+  await updateStore((store) => {
+    delete store.windows[windowId];
+  });
+}
@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import { withFileLock } from './utils/fileLock';
+
+export interface PendingStop {
+  scheduledAt: number;
+  stopAt: number;
+  /** Scheduled because the last window closed; any window opening cancels it */
+  onExit?: boolean;
+}
+
+export interface OpenWindow {
+  connectedCodespaceName?: string;
+  heartbeatAt: number;
+}
+
+/**
+ * State shared by all windows and the deferred stop processes. It is kept in a
+ * file rather than global state so that every process sees changes immediately.
+ * This module must not import vscode, as the deferred stop process runs without it.
+ */
+export interface AutoStopStore {
+  pendingStops: Record<string, PendingStop>;
+  windows: Record<string, OpenWindow>;
+}
+
+export const STORE_FILE_NAME = 'auto-stop.json';
+
+/**
+ * Reads the store. A missing or unreadable file reads as an empty store.
+ * @param storeFile - Path of the store file
+ */
+export async function readStore(storeFile: string): Promise<AutoStopStore> {
+  const empty: AutoStopStore = { pendingStops: {}, windows: {} };
+  try {
+    return { ...empty, ...(JSON.parse(await fs.promises.readFile(storeFile, 'utf-8')) as Partial<AutoStopStore>) };
+  } catch {
+    return empty;
+  }
+}
+
+/**
+ * Changes the store while holding its lock, so that concurrent updates are not lost.
+ * The new content is renamed into place, so readers never see a half-written file.
+ * @param storeFile - Path of the store file
+ * @param update - Changes the store in place
+ * @returns What the update returns
+ */
+export async function updateStore<T>(storeFile: string, update: (store: AutoStopStore) => T): Promise<T> {
+  return withFileLock(storeFile, async () => {
+    const store = await readStore(storeFile);
+    const result = update(store);
+    const tempPath = `${storeFile}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(store));
+    await fs.promises.rename(tempPath, storeFile);
+    return result;
+  });
+}
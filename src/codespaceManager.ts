@@ -1,10 +1,21 @@
 import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
 import * as ghCli from './ghCli';
 import * as sshConfigManager from './sshConfigManager';
-import { Codespace, GhCliError } from './types';
+import * as portForwarding from './portForwarding';
+import * as keepAlive from './keepAlive';
+import * as recentCodespaces from './recentCodespaces';
+import * as remoteFolders from './remoteFolders';
+import * as remoteSsh from './remoteSsh';
+import { Codespace, ForwardedPort, GhCliError, PortVisibility, SshConfigEntry } from './types';
 import { log } from './extension';
-import { isTransitionalState } from './constants';
-import { formatBytes } from './utils/formatting';
+import { getLogUri } from './ui/codespaceLogProvider';
+import { BULK_OPERATION_CONCURRENCY, CODESPACE_LOCATIONS, isTransitionalState } from './constants';
+import * as config from './config';
+import { formatBytes, formatDuration, formatLocation, formatPortVisibility, getTimeAgo } from './utils/formatting';
+import { ensureError } from './utils/errors';
+import { mapWithConcurrency } from './utils/concurrency';
 
 export interface PrerequisiteResult {
   ready: boolean;
@@ -82,6 +93,27 @@ async function waitForStateChange(
   }
 }
 
+/**
+ * Polls until the codespace reports the given machine type.
+ * @returns True if the machine type was applied before the timeout
+ */
+async function waitForMachineType(
+  codespaceName: string,
+  machineType: string,
+  maxWaitMs = 300000,
+  pollIntervalMs = 3000
+): Promise<boolean> {
+  const startTime = Date.now();
+  while (Date.now() - startTime < maxWaitMs) {
+    const current = await ghCli.getCodespace(codespaceName);
+    if (current && current.machineName === machineType) {
+      return true;
+    }
+    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+  }
+  return false;
+}
+
 /**
  * Triggers a refresh of the codespaces tree view.
  */
@@ -93,7 +125,8 @@ function triggerRefresh(): void {
  * Ensures a codespace is available (running). Starts it if needed.
  * @param codespace - The codespace to ensure is available
  * @returns Object with the fresh codespace and whether it was freshly started
- * @throws {Error} If the codespace no longer exists or is in a failed state
+ * @throws {Error} If the codespace no longer exists
+ * @throws {GhCliError} If the codespace is in a failed state
  */
 async function ensureCodespaceAvailable(codespace: Codespace): Promise<{ codespace: Codespace; wasStarted: boolean }> {
   const freshCodespace = await vscode.window.withProgress(
@@ -112,7 +145,10 @@ async function ensureCodespaceAvailable(codespace: Codespace): Promise<{ codespa
   }
 
   if (freshCodespace.state === 'Failed') {
-    throw new Error(vscode.l10n.t('Codespace {0} is in a failed state. Please rebuild it.', codespace.displayName));
+    throw new GhCliError(
+      'CODESPACE_FAILED',
+      vscode.l10n.t('Codespace {0} is in a failed state. Please rebuild it.', codespace.displayName)
+    );
   }
 
   if (freshCodespace.state === 'Available') {
@@ -144,12 +180,12 @@ async function ensureCodespaceAvailable(codespace: Codespace): Promise<{ codespa
 }
 
 /**
- * Connects to a codespace by configuring SSH and opening the remote folder.
- * If the codespace is shutdown, it will be started first.
- * @param codespace - The codespace to connect to
- * @throws {Error} If connection fails or codespace has no repository
+ * Starts a codespace if needed, writes its SSH entry and waits until it accepts SSH connections.
+ * @param codespace - The codespace to prepare
+ * @returns The SSH entry written for the codespace
+ * @throws {Error} If the codespace cannot be started or configured
  */
-export async function connect(codespace: Codespace): Promise<void> {
+async function prepareSshConnection(codespace: Codespace): Promise<SshConfigEntry> {
   const { wasStarted } = await ensureCodespaceAvailable(codespace);
 
   // Get SSH config from gh CLI
@@ -171,7 +207,7 @@ export async function connect(codespace: Codespace): Promise<void> {
     throw new Error(vscode.l10n.t('Failed to get SSH configuration from GitHub CLI'));
   }
 
-  const entry = entries[0];
+  const entry = sshConfigManager.mergeSshOptions(entries[0], config.getSshExtraOptions(codespace.repository));
 
   // Check if identity file exists, if not trigger key generation
   if (entry.identityFile && !sshConfigManager.identityFileExists(entry.identityFile)) {
@@ -188,9 +224,9 @@ export async function connect(codespace: Codespace): Promise<void> {
   }
 
   // Write to SSH config
-  sshConfigManager.setEntry(entry);
+  await sshConfigManager.setEntry(codespace.name, entry);
 
-  // Probe SSH readiness before handing off to remote-ssh.
+  // Probe SSH readiness before handing off to the Remote-SSH extension.
   // When the codespace was freshly started, add a settling delay because
   // the server can fail to start if the environment isn't fully initialized
   // even though SSH is connectable.
@@ -208,25 +244,63 @@ export async function connect(codespace: Codespace): Promise<void> {
     }
   );
 
-  // Refresh open-remote-ssh if available
-  await vscode.commands.executeCommand('remote-ssh.refreshHosts').then(
-    () => {},
-    () => {} // Ignore if command doesn't exist
-  );
+  return entry;
+}
 
-  // Build the remote URI
-  // Format: vscode-remote://ssh-remote+hostname/path
-  const repoName = codespace.repository.split('/').pop();
-  if (!repoName) {
-    throw new Error(vscode.l10n.t('Codespace has no associated repository'));
+/**
+ * Connects to a codespace by configuring SSH and opening the remote folder.
+ * If the codespace is shutdown, it will be started first.
+ * Opens the folder last chosen for the codespace, or its workspace folder.
+ * @param codespace - The codespace to connect to
+ * @param state - Global state holding the last chosen folders
+ * @param chooseFolder - Whether to ask which folder or workspace file to open
+ * @throws {Error} If connection fails
+ */
+export async function connect(codespace: Codespace, state: vscode.Memento, chooseFolder = false): Promise<void> {
+  const remoteSshAdapter = remoteSsh.getAdapter();
+  if (!remoteSshAdapter) {
+    await remoteSsh.showMissingAdapterDiagnostic();
+    return;
   }
-  const remotePath = `/workspaces/${repoName}`;
-  const remoteUri = vscode.Uri.parse(`vscode-remote://ssh-remote+${entry.host}${remotePath}`);
 
-  // Open the remote folder
-  await vscode.commands.executeCommand('vscode.openFolder', remoteUri, {
-    forceNewWindow: false,
-  });
+  const entry = await prepareSshConnection(codespace);
+  await remoteSshAdapter.refreshHosts();
+
+  const lastFolder = recentCodespaces.getLastFolder(state, codespace.name);
+  const folder = chooseFolder
+    ? await remoteFolders.chooseFolder(codespace, lastFolder)
+    : lastFolder ?? await remoteFolders.getWorkspaceFolder(codespace);
+  if (!folder) {
+    return;
+  }
+  if (chooseFolder) {
+    await recentCodespaces.setLastFolder(state, codespace.name, folder);
+  }
+
+  log(`Opening ${folder} on ${entry.host} with ${remoteSshAdapter.displayName}`);
+  await remoteSshAdapter.openFolder(entry.host, folder);
+}
+
+/**
+ * Restarts the codespace of the current remote window and reloads the window,
+ * e.g. after the codespace was stopped or its SSH tunnel died.
+ * @param codespace - The connected codespace
+ * @param remoteHost - The SSH host the window is connected to
+ * @throws {Error} If the codespace cannot be started or configured
+ */
+export async function restartAndReconnect(codespace: Codespace, remoteHost: string): Promise<void> {
+  const entry = await prepareSshConnection(codespace);
+
+  // The host only changes if gh names it differently now, e.g. after a branch switch
+  const remoteSshAdapter = remoteSsh.getAdapter();
+  const folder = vscode.workspace.workspaceFile ?? vscode.workspace.workspaceFolders?.[0]?.uri;
+  if (entry.host !== remoteHost && remoteSshAdapter && folder) {
+    await remoteSshAdapter.refreshHosts();
+    await remoteSshAdapter.openFolder(entry.host, folder.path);
+    return;
+  }
+
+  await vscode.commands.executeCommand('workbench.action.reloadWindow');
 }
 
 /**
@@ -274,6 +348,7 @@ export async function stop(codespace: Codespace): Promise<void> {
       cancellable: false,
     },
     async () => {
+      keepAlive.stop(codespace.name);
       await ghCli.stopCodespace(codespace.name);
       // Wait for transitional state and refresh UI to show 'ShuttingDown'
       await waitForStateChange(codespace.name, 'Available');
@@ -285,6 +360,271 @@ export async function stop(codespace: Codespace): Promise<void> {
   void vscode.window.showInformationMessage(vscode.l10n.t('Codespace {0} stopped', codespace.displayName));
 }
 
+/**
+ * Renames a codespace by changing its display name.
+ * @param codespace - The codespace to rename
+ * @returns The new display name, or undefined if cancelled
+ */
+export async function rename(codespace: Codespace): Promise<string | undefined> {
+  const displayName = await vscode.window.showInputBox({
+    prompt: vscode.l10n.t('Enter a new display name for {0}', codespace.displayName),
+    value: codespace.displayName,
+    title: vscode.l10n.t('Rename Codespace'),
+    validateInput: (value) => {
+      const trimmed = value.trim();
+      if (!trimmed) {
+        return vscode.l10n.t('Display name cannot be empty');
+      }
+      if (trimmed.length > 48) {
+        return vscode.l10n.t('Display name must be 48 characters or fewer');
+      }
+      return undefined;
+    },
+  });
+
+  const newName = displayName?.trim();
+  if (!newName || newName === codespace.displayName) {
+    return undefined;
+  }
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Renaming codespace {0}...', codespace.displayName),
+      cancellable: false,
+    },
+    async () => {
+      await ghCli.renameCodespace(codespace.name, newName);
+    }
+  );
+
+  return newName;
+}
+
+/**
+ * Publishes an unpublished (template) codespace to a new repository.
+ * @param codespace - The codespace to publish
+ * @returns The new repository in owner/name format, or undefined if cancelled
+ */
+export async function publish(codespace: Codespace): Promise<string | undefined> {
+  if (!codespace.unpublished) {
+    void vscode.window.showInformationMessage(
+      vscode.l10n.t('Codespace {0} is already published to {1}', codespace.displayName, codespace.repository)
+    );
+    return undefined;
+  }
+
+  const repositoryName = await vscode.window.showInputBox({
+    prompt: vscode.l10n.t('Enter a name for the new repository'),
+    value: codespace.displayName.replace(/[^A-Za-z0-9._-]+/g, '-'),
+    title: vscode.l10n.t('Publish to Repository - Repository Name'),
+    validateInput: (value) => {
+      if (!/^[A-Za-z0-9._-]+$/.test(value)) {
+        return vscode.l10n.t('Repository names can only contain letters, numbers, hyphens, periods, and underscores');
+      }
+      return undefined;
+    },
+  });
+
+  if (!repositoryName) {
+    return undefined;
+  }
+
+  const visibilityItems = [
+    { label: vscode.l10n.t('$(lock) Private'), isPrivate: true },
+    { label: vscode.l10n.t('$(globe) Public'), isPrivate: false },
+  ];
+
+  const visibility = await vscode.window.showQuickPick(visibilityItems, {
+    placeHolder: vscode.l10n.t('Select the repository visibility'),
+    title: vscode.l10n.t('Publish to Repository - Visibility'),
+  });
+
+  if (!visibility) {
+    return undefined;
+  }
+
+  const repository = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Publishing codespace {0}...', codespace.displayName),
+      cancellable: false,
+    },
+    async () => {
+      return await ghCli.publishCodespace(codespace.name, repositoryName, visibility.isPrivate);
+    }
+  );
+
+  void vscode.window
+    .showInformationMessage(
+      vscode.l10n.t('Codespace {0} published to {1}', codespace.displayName, repository),
+      vscode.l10n.t('Open Repository')
+    )
+    .then((selection) => {
+      if (selection === vscode.l10n.t('Open Repository')) {
+        void vscode.env.openExternal(vscode.Uri.parse(`https://github.com/${repository}`));
+      }
+    });
+
+  return repository;
+}
+
+/**
+ * Builds the URL for opening a pull request from an exported branch.
+ * Exports to a fork are compared against the codespace's repository.
+ */
+function getExportPullRequestUrl(codespace: Codespace, codespaceExport: ghCli.CodespaceExport): string {
+  const branch = encodeURIComponent(codespaceExport.branch);
+  const match = codespaceExport.htmlUrl?.match(/^https:\/\/github\.com\/([^/]+)\/([^/]+)\//);
+  if (match && `${match[1]}/${match[2]}` !== codespace.repository) {
+    return `https://github.com/${codespace.repository}/compare/${match[1]}:${branch}?expand=1`;
+  }
+  return `https://github.com/${codespace.repository}/compare/${branch}?expand=1`;
+}
+
+/**
+ * Exports the changes of a codespace to a branch and waits for the export to finish.
+ * @param codespace - The codespace to export
+ * @returns The finished export
+ */
+export async function exportChanges(codespace: Codespace): Promise<ghCli.CodespaceExport> {
+  if (!codespace.repository) {
+    throw new Error(vscode.l10n.t('Codespace has no associated repository'));
+  }
+
+  const codespaceExport = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Exporting changes from {0}...', codespace.displayName),
+      cancellable: false,
+    },
+    async () => {
+      const started = await ghCli.exportCodespace(codespace.name);
+      // Refresh so the tree shows the 'Exporting' state
+      triggerRefresh();
+      return await ghCli.waitForExport(codespace.name, started.id);
+    }
+  );
+
+  triggerRefresh();
+
+  const createPullRequest = vscode.l10n.t('Create Pull Request');
+  const openBranch = vscode.l10n.t('Open Branch');
+  const actions = codespaceExport.htmlUrl ? [createPullRequest, openBranch] : [createPullRequest];
+  void vscode.window
+    .showInformationMessage(
+      vscode.l10n.t('Changes from {0} exported to branch {1}', codespace.displayName, codespaceExport.branch),
+      ...actions
+    )
+    .then((selection) => {
+      if (selection === createPullRequest) {
+        void vscode.env.openExternal(vscode.Uri.parse(getExportPullRequestUrl(codespace, codespaceExport)));
+      } else if (selection === openBranch && codespaceExport.htmlUrl) {
+        void vscode.env.openExternal(vscode.Uri.parse(codespaceExport.htmlUrl));
+      }
+    });
+
+  return codespaceExport;
+}
+
+/**
+ * Changes the machine type of an existing codespace.
+ * A running codespace can be stopped first so the change is applied right away.
+ * @param codespace - The codespace to resize
+ */
+export async function changeMachineType(codespace: Codespace): Promise<void> {
+  if (!codespace.repository) {
+    throw new Error(vscode.l10n.t('Codespace has no associated repository'));
+  }
+
+  const machineTypes = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Loading machine types...'),
+      cancellable: false,
+    },
+    async () => {
+      return await ghCli.listMachineTypes(codespace.repository, codespace.branch || undefined);
+    }
+  );
+
+  if (machineTypes.length === 0) {
+    void vscode.window.showInformationMessage(
+      vscode.l10n.t('No other machine types are available for {0}', codespace.displayName)
+    );
+    return;
+  }
+
+  const machineItems = machineTypes.map((machine) => ({
+    label: machine.displayName,
+    description:
+      machine.name === codespace.machineName
+        ? vscode.l10n.t('Current')
+        : vscode.l10n.t('{0} cores, {1} RAM, {2} storage', machine.cpus, formatBytes(machine.memoryInBytes), formatBytes(machine.storageInBytes)),
+    detail: machine.name,
+  }));
+
+  const machineSelection = await vscode.window.showQuickPick(machineItems, {
+    placeHolder: vscode.l10n.t('Select a machine type'),
+    title: vscode.l10n.t('Change Machine Type - {0}', codespace.displayName),
+  });
+
+  if (!machineSelection || machineSelection.detail === codespace.machineName) {
+    return;
+  }
+  const machineType = machineSelection.detail;
+
+  let stopFirst = false;
+  if (codespace.state === 'Available') {
+    const stopAndChange = vscode.l10n.t('Stop and Change');
+    const changeLater = vscode.l10n.t('Change on Next Start');
+    const choice = await vscode.window.showWarningMessage(
+      vscode.l10n.t('{0} is running. Stop it now to apply the new machine type?', codespace.displayName),
+      { modal: true },
+      stopAndChange,
+      changeLater
+    );
+    if (!choice) {
+      return;
+    }
+    stopFirst = choice === stopAndChange;
+  }
+
+  const applied = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Changing machine type of {0}...', codespace.displayName),
+      cancellable: false,
+    },
+    async () => {
+      if (stopFirst) {
+        await ghCli.stopCodespace(codespace.name);
+        await waitForStateChange(codespace.name, 'Available');
+        triggerRefresh();
+        await ghCli.waitForState(codespace.name, 'Shutdown');
+      }
+      await ghCli.changeMachineType(codespace.name, machineType);
+      // A running codespace only switches machines on its next start
+      if (codespace.state === 'Available' && !stopFirst) {
+        return false;
+      }
+      return await waitForMachineType(codespace.name, machineType);
+    }
+  );
+
+  triggerRefresh();
+
+  if (applied) {
+    void vscode.window.showInformationMessage(
+      vscode.l10n.t('Codespace {0} now uses {1}', codespace.displayName, machineSelection.label)
+    );
+  } else {
+    void vscode.window.showInformationMessage(
+      vscode.l10n.t('Codespace {0} will use {1} after its next start', codespace.displayName, machineSelection.label)
+    );
+  }
+}
+
 /**
  * Opens a terminal with the gh auth login command pre-filled.
  * @returns The created terminal
@@ -328,98 +668,980 @@ export async function openSshTerminal(codespace: Codespace): Promise<void> {
 }
 
 /**
- * Rebuilds a codespace container.
- * @param codespace - The codespace to rebuild
- * @param full - Whether to do a full rebuild without cache
+ * Forwards a codespace port to localhost.
+ * Prompts for the local port, defaulting to the same port number.
+ * @param codespace - The codespace that owns the port
+ * @param port - The port to forward
  */
-export async function rebuild(codespace: Codespace, full = false): Promise<void> {
-  const fullText = full ? vscode.l10n.t(' (full)') : '';
-  const confirmMessage = full
-    ? vscode.l10n.t('Are you sure you want to fully rebuild {0}? This will rebuild without cache and may take longer.', codespace.displayName)
-    : vscode.l10n.t('Are you sure you want to rebuild {0}?', codespace.displayName);
+export async function forwardPort(codespace: Codespace, port: ForwardedPort): Promise<void> {
+  const localPortInput = await vscode.window.showInputBox({
+    prompt: vscode.l10n.t('Enter the local port to forward {0} to', port.sourcePort),
+    value: String(port.sourcePort),
+    title: vscode.l10n.t('Forward Port'),
+    validateInput: (value) => {
+      const num = Number(value);
+      if (!Number.isInteger(num) || num < 1 || num > 65535) {
+        return vscode.l10n.t('Please enter a port between 1 and 65535');
+      }
+      return undefined;
+    },
+  });
 
-  const confirmed = await vscode.window.showWarningMessage(
-    confirmMessage,
-    { modal: true },
-    vscode.l10n.t('Rebuild')
+  if (!localPortInput) {
+    return;
+  }
+  const localPort = Number(localPortInput);
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Forwarding port {0}...', port.sourcePort),
+      cancellable: false,
+    },
+    async () => {
+      await portForwarding.startForwarding(codespace.name, port.sourcePort, localPort);
+    }
   );
 
-  if (confirmed !== vscode.l10n.t('Rebuild')) {
+  void vscode.window
+    .showInformationMessage(
+      vscode.l10n.t('Port {0} forwarded to localhost:{1}', port.sourcePort, localPort),
+      vscode.l10n.t('Open in Browser')
+    )
+    .then((selection) => {
+      if (selection === vscode.l10n.t('Open in Browser')) {
+        void vscode.env.openExternal(vscode.Uri.parse(`http://localhost:${localPort}`));
+      }
+    });
+}
+
+/**
+ * Stops forwarding a codespace port to localhost.
+ * @param codespace - The codespace that owns the port
+ * @param port - The port to stop forwarding
+ */
+export function stopForwardingPort(codespace: Codespace, port: ForwardedPort): void {
+  if (!portForwarding.stopForwarding(codespace.name, port.sourcePort)) {
+    void vscode.window.showInformationMessage(vscode.l10n.t('Port {0} is not forwarded', port.sourcePort));
+    return;
+  }
+  void vscode.window.showInformationMessage(vscode.l10n.t('Stopped forwarding port {0}', port.sourcePort));
+}
+
+/**
+ * Changes the visibility of a codespace port.
+ * @param codespace - The codespace that owns the port
+ * @param port - The port to change
+ */
+export async function setPortVisibility(codespace: Codespace, port: ForwardedPort): Promise<void> {
+  const visibilities: PortVisibility[] = ['private', 'org', 'public'];
+  const items = visibilities.map((visibility) => ({
+    label: formatPortVisibility(visibility),
+    description: visibility === port.visibility ? vscode.l10n.t('Current') : '',
+    visibility,
+  }));
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: vscode.l10n.t('Select the visibility for port {0}', port.sourcePort),
+    title: vscode.l10n.t('Change Port Visibility'),
+  });
+
+  if (!selected || selected.visibility === port.visibility) {
     return;
   }
 
   await vscode.window.withProgress(
     {
       location: vscode.ProgressLocation.Notification,
-      title: vscode.l10n.t('Rebuilding codespace{0} {1}...', fullText, codespace.displayName),
+      title: vscode.l10n.t('Changing visibility of port {0}...', port.sourcePort),
       cancellable: false,
     },
     async () => {
-      const originalState = codespace.state;
-      await ghCli.rebuildCodespace(codespace.name, full);
-      // Wait for transitional state so the UI can reflect the change
-      await waitForStateChange(codespace.name, originalState);
+      await ghCli.setPortVisibility(codespace.name, port.sourcePort, selected.visibility);
     }
   );
 
   void vscode.window.showInformationMessage(
-    vscode.l10n.t('Codespace {0} rebuild initiated. It will be available once the rebuild completes.', codespace.displayName)
+    vscode.l10n.t('Port {0} is now {1}', port.sourcePort, selected.label)
   );
 }
 
 /**
- * Deletes a codespace.
- * @param codespace - The codespace to delete
+ * Copies the browse URL of a codespace port to the clipboard.
+ * @param port - The port whose URL to copy
  */
-export async function deleteCodespace(codespace: Codespace): Promise<void> {
-  const confirmed = await vscode.window.showWarningMessage(
-    vscode.l10n.t('Are you sure you want to delete {0}? This action cannot be undone and any unsaved changes will be lost.', codespace.displayName),
-    { modal: true },
-    vscode.l10n.t('Delete')
-  );
+export async function copyPortUrl(port: ForwardedPort): Promise<void> {
+  if (!port.browseUrl) {
+    void vscode.window.showInformationMessage(vscode.l10n.t('Port {0} has no browse URL', port.sourcePort));
+    return;
+  }
+  await vscode.env.clipboard.writeText(port.browseUrl);
+  void vscode.window.showInformationMessage(vscode.l10n.t('Copied URL for port {0}', port.sourcePort));
+}
 
-  if (confirmed !== vscode.l10n.t('Delete')) {
+/**
+ * Opens the browse URL of a codespace port in the external browser.
+ * @param port - The port whose URL to open
+ */
+export async function openPortUrl(port: ForwardedPort): Promise<void> {
+  if (!port.browseUrl) {
+    void vscode.window.showInformationMessage(vscode.l10n.t('Port {0} has no browse URL', port.sourcePort));
     return;
   }
+  await vscode.env.openExternal(vscode.Uri.parse(port.browseUrl));
+}
 
-  await vscode.window.withProgress(
+/**
+ * Lets the user pick one of a codespace's ports and opens its URL.
+ * @param codespace - The codespace whose ports to list
+ */
+export async function openPort(codespace: Codespace): Promise<void> {
+  const ports = await vscode.window.withProgress(
     {
       location: vscode.ProgressLocation.Notification,
-      title: vscode.l10n.t('Deleting codespace {0}...', codespace.displayName),
+      title: vscode.l10n.t('Loading ports...'),
       cancellable: false,
     },
-    async () => {
-      await ghCli.deleteCodespace(codespace.name);
+    () => ghCli.listPorts(codespace.name)
+  );
+
+  if (ports.length === 0) {
+    void vscode.window.showInformationMessage(vscode.l10n.t('No forwarded ports'));
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    ports.map((port) => ({
+      label: port.label ? `${port.sourcePort} (${port.label})` : String(port.sourcePort),
+      description: formatPortVisibility(port.visibility),
+      port,
+    })),
+    {
+      title: vscode.l10n.t('Open Port'),
+      placeHolder: vscode.l10n.t('Select a port to open in the browser'),
     }
   );
 
-  void vscode.window.showInformationMessage(vscode.l10n.t('Codespace {0} deleted', codespace.displayName));
+  if (selected) {
+    await openPortUrl(selected.port);
+  }
 }
 
 /**
- * Creates a new codespace with an interactive UI flow.
- * @returns The name of the created codespace, or undefined if cancelled
+ * Opens the creation and devcontainer logs of a codespace in a read-only editor.
+ * While the codespace is starting, provisioning or rebuilding, the document waits
+ * for it to be running, as the logs can only be read then.
+ * Asks first if the codespace is stopped, as reading the logs starts it.
+ * @param codespace - The codespace whose logs to show
  */
-export async function createCodespace(): Promise<string | undefined> {
-  // Step 1: Select repository
-  const repos = await vscode.window.withProgress(
+export async function viewLogs(codespace: Codespace): Promise<void> {
+  // The logs are read over SSH, which starts a stopped codespace
+  if (codespace.state === 'Shutdown') {
+    const startLabel = vscode.l10n.t('Start and View Logs');
+    const confirmed = await vscode.window.showWarningMessage(
+      vscode.l10n.t('{0} is stopped. Viewing its logs will start it.', codespace.displayName),
+      { modal: true },
+      startLabel
+    );
+    if (confirmed !== startLabel) {
+      return;
+    }
+  }
+
+  const document = await vscode.window.withProgress(
     {
       location: vscode.ProgressLocation.Notification,
-      title: vscode.l10n.t('Loading repositories (this may take a moment)...'),
+      title: vscode.l10n.t('Loading logs for {0}...', codespace.displayName),
       cancellable: false,
     },
     async () => {
-      return await ghCli.listRepositories();
+      return await vscode.workspace.openTextDocument(getLogUri(codespace.name));
     }
   );
 
-  const repoItems: vscode.QuickPickItem[] = repos.map((repo) => ({
-    label: repo.nameWithOwner,
-    description: repo.isPrivate ? vscode.l10n.t('$(lock) Private') : vscode.l10n.t('$(globe) Public'),
-    detail: repo.description || undefined,
-  }));
+  await vscode.languages.setTextDocumentLanguage(document, 'log');
+  await vscode.window.showTextDocument(document, { preview: false });
+}
 
-  // Add option to enter repository manually
+/**
+ * Turns keep alive on for a running codespace.
+ * While on, the codespace is kept from stopping due to inactivity
+ * for up to the configured maximum duration.
+ * @param codespace - The codespace to keep alive
+ */
+export function startKeepAlive(codespace: Codespace): void {
+  if (codespace.state !== 'Available') {
+    void vscode.window.showInformationMessage(vscode.l10n.t('Codespace {0} is not running', codespace.displayName));
+    return;
+  }
+
+  const durationMinutes = config.getKeepAliveMaxDurationMinutes();
+  keepAlive.start(codespace.name, durationMinutes);
+  void vscode.window.showInformationMessage(
+    vscode.l10n.t('Keeping {0} alive for up to {1}', codespace.displayName, formatDuration(durationMinutes))
+  );
+}
+
+/**
+ * Turns keep alive off, letting the codespace stop due to inactivity again.
+ * @param codespace - The codespace to stop keeping alive
+ */
+export function stopKeepAlive(codespace: Codespace): void {
+  if (keepAlive.stop(codespace.name)) {
+    void vscode.window.showInformationMessage(vscode.l10n.t('Keep alive stopped for {0}', codespace.displayName));
+  }
+}
+
+/**
+ * Rebuilds a codespace container.
+ * @param codespace - The codespace to rebuild
+ * @param full - Whether to do a full rebuild without cache
+ */
+export async function rebuild(codespace: Codespace, full = false): Promise<void> {
+  const fullText = full ? vscode.l10n.t(' (full)') : '';
+  const confirmMessage = full
+    ? vscode.l10n.t('Are you sure you want to fully rebuild {0}? This will rebuild without cache and may take longer.', codespace.displayName)
+    : vscode.l10n.t('Are you sure you want to rebuild {0}?', codespace.displayName);
+
+  const confirmed = await vscode.window.showWarningMessage(
+    confirmMessage,
+    { modal: true },
+    vscode.l10n.t('Rebuild')
+  );
+
+  if (confirmed !== vscode.l10n.t('Rebuild')) {
+    return;
+  }
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Rebuilding codespace{0} {1}...', fullText, codespace.displayName),
+      cancellable: false,
+    },
+    async () => {
+      const originalState = codespace.state;
+      await ghCli.rebuildCodespace(codespace.name, full);
+      // Wait for transitional state so the UI can reflect the change
+      await waitForStateChange(codespace.name, originalState);
+    }
+  );
+
+  void vscode.window.showInformationMessage(
+    vscode.l10n.t('Codespace {0} rebuild initiated. It will be available once the rebuild completes.', codespace.displayName)
+  );
+}
+
+/**
+ * Describes the work that would be lost by deleting a codespace.
+ * @returns An empty list if the codespace has no local work
+ */
+function getLocalWork(codespace: Codespace): string[] {
+  if (codespace.unpublished) {
+    return [vscode.l10n.t('not published to a repository')];
+  }
+  const work: string[] = [];
+  if (codespace.gitStatus.hasUncommittedChanges) {
+    work.push(vscode.l10n.t('uncommitted changes'));
+  }
+  if (codespace.gitStatus.hasUnpushedChanges) {
+    work.push(vscode.l10n.t('unpushed commits'));
+  }
+  return work;
+}
+
+/**
+ * Pushes a codespace's unpushed commits to its upstream branch over SSH.
+ */
+async function pushCommits(codespace: Codespace): Promise<void> {
+  await ensureCodespaceAvailable(codespace);
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Pushing commits from {0}...', codespace.displayName),
+      cancellable: false,
+    },
+    async () => {
+      await ghCli.runSshCommand(codespace.name, `git -C '${remoteFolders.getRepositoryFolder(codespace)}' push`);
+    }
+  );
+
+  void vscode.window.showInformationMessage(vscode.l10n.t('Commits from {0} pushed', codespace.displayName));
+}
+
+/**
+ * Downloads the codespace's changes against its upstream branch as a patch file.
+ * @returns True if the patch was saved
+ */
+async function downloadPatch(codespace: Codespace): Promise<boolean> {
+  const uri = await vscode.window.showSaveDialog({
+    title: vscode.l10n.t('Save Patch'),
+    defaultUri: vscode.Uri.file(path.join(os.homedir(), `${codespace.name}.patch`)),
+    filters: { [vscode.l10n.t('Patch Files')]: ['patch', 'diff'] },
+  });
+
+  if (!uri) {
+    return false;
+  }
+
+  await ensureCodespaceAvailable(codespace);
+
+  const patch = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Creating patch from {0}...', codespace.displayName),
+      cancellable: false,
+    },
+    async () => {
+      // Diff the working tree against the upstream branch so unpushed commits are included.
+      // Untracked files are added as intent-to-add to a copy of the index, so they are
+      // part of the patch without touching the codespace's staging area.
+      const base = '"$(git rev-parse --abbrev-ref --symbolic-full-name @{upstream} 2>/dev/null || echo HEAD)"';
+      return await ghCli.runSshCommand(
+        codespace.name,
+        `cd '${remoteFolders.getRepositoryFolder(codespace)}' && index="$(mktemp)" && ` +
+          'cp "$(git rev-parse --git-path index)" "$index" && ' +
+          `GIT_INDEX_FILE="$index" git add -N . && GIT_INDEX_FILE="$index" git diff --binary ${base}; ` +
+          'status=$?; rm -f "$index"; exit $status'
+      );
+    }
+  );
+
+  await vscode.workspace.fs.writeFile(uri, Buffer.from(patch, 'utf8'));
+  void vscode.window.showInformationMessage(vscode.l10n.t('Patch saved to {0}', uri.fsPath));
+  return true;
+}
+
+/**
+ * Offers to save a codespace's local work before it is deleted.
+ * @returns Whether unsaved work remains, or undefined if cancelled
+ */
+async function saveLocalWork(codespace: Codespace): Promise<boolean | undefined> {
+  const localWork = getLocalWork(codespace);
+  if (localWork.length === 0) {
+    return false;
+  }
+
+  const pushCommitsAction = vscode.l10n.t('Push Commits');
+  const exportAction = vscode.l10n.t('Export to Branch');
+  const downloadPatchAction = vscode.l10n.t('Download Patch');
+  const publishAction = vscode.l10n.t('Publish to Repository');
+  const deleteAnywayAction = vscode.l10n.t('Delete Anyway');
+
+  const actions: string[] = [];
+  if (codespace.unpublished) {
+    actions.push(publishAction);
+  } else {
+    // Pushing only saves committed work
+    if (codespace.gitStatus.hasUnpushedChanges && !codespace.gitStatus.hasUncommittedChanges) {
+      actions.push(pushCommitsAction);
+    }
+    actions.push(exportAction, downloadPatchAction);
+  }
+  actions.push(deleteAnywayAction);
+
+  const selection = await vscode.window.showWarningMessage(
+    vscode.l10n.t('{0} has {1}. This work will be lost if the codespace is deleted.', codespace.displayName, localWork.join(', ')),
+    { modal: true, detail: vscode.l10n.t('Save this work before deleting?') },
+    ...actions
+  );
+
+  switch (selection) {
+    case pushCommitsAction:
+      await pushCommits(codespace);
+      return false;
+    case exportAction:
+      await exportChanges(codespace);
+      return false;
+    case publishAction:
+      return (await publish(codespace)) === undefined ? undefined : false;
+    case downloadPatchAction:
+      return (await downloadPatch(codespace)) ? false : undefined;
+    case deleteAnywayAction:
+      return true;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Asks the user to type the codespace name to delete it along with its unsaved work.
+ * @returns True if the name was typed
+ */
+async function confirmDeletingLocalWork(codespace: Codespace): Promise<boolean> {
+  const typedName = await vscode.window.showInputBox({
+    title: vscode.l10n.t('Delete Codespace'),
+    prompt: vscode.l10n.t('Type {0} to confirm deleting this codespace and its unsaved work', codespace.name),
+    placeHolder: codespace.name,
+    ignoreFocusOut: true,
+    validateInput: (value) =>
+      value === codespace.name ? undefined : vscode.l10n.t('Enter the codespace name to confirm'),
+  });
+  return typedName === codespace.name;
+}
+
+/**
+ * Deletes a codespace.
+ * If the codespace has uncommitted or unpushed work, offers to save it first
+ * and requires typing the codespace name to delete it anyway.
+ * @param codespace - The codespace to delete
+ */
+export async function deleteCodespace(codespace: Codespace): Promise<void> {
+  const losesWork = await saveLocalWork(codespace);
+  if (losesWork === undefined) {
+    return;
+  }
+
+  if (losesWork) {
+    if (!(await confirmDeletingLocalWork(codespace))) {
+      return;
+    }
+  } else {
+    const confirmed = await vscode.window.showWarningMessage(
+      vscode.l10n.t('Are you sure you want to delete {0}? This action cannot be undone and any unsaved changes will be lost.', codespace.displayName),
+      { modal: true },
+      vscode.l10n.t('Delete')
+    );
+
+    if (confirmed !== vscode.l10n.t('Delete')) {
+      return;
+    }
+  }
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Deleting codespace {0}...', codespace.displayName),
+      cancellable: false,
+    },
+    async () => {
+      await ghCli.deleteCodespace(codespace.name);
+    }
+  );
+  await removeSshConfigEntry(codespace.name);
+
+  void vscode.window.showInformationMessage(vscode.l10n.t('Codespace {0} deleted', codespace.displayName));
+}
+
+/**
+ * Removes the SSH config entry of a deleted codespace, if it has one.
+ * A failure is only logged, as the codespace itself is already gone.
+ */
+async function removeSshConfigEntry(codespaceName: string): Promise<void> {
+  try {
+    await sshConfigManager.removeEntry(codespaceName);
+  } catch (err) {
+    log(`Failed to remove SSH config entry for codespace ${codespaceName}`, ensureError(err));
+  }
+}
+
+export interface BulkOperationResult {
+  succeeded: Codespace[];
+  failed: { codespace: Codespace; error: Error }[];
+}
+
+interface BulkOperationMessages {
+  progressTitle: string;
+  success: (count: number) => string;
+  logAction: string;
+}
+
+/**
+ * Runs an operation on several codespaces with bounded concurrency,
+ * reporting aggregated progress and a summary when done.
+ */
+async function runBulkOperation(
+  codespaces: Codespace[],
+  messages: BulkOperationMessages,
+  operation: (codespace: Codespace) => Promise<void>
+): Promise<BulkOperationResult> {
+  const result: BulkOperationResult = { succeeded: [], failed: [] };
+  const total = codespaces.length;
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: messages.progressTitle,
+      cancellable: false,
+    },
+    async (progress) => {
+      let completed = 0;
+      progress.report({ message: vscode.l10n.t('{0} of {1} done', completed, total) });
+
+      const outcomes = await mapWithConcurrency(codespaces, BULK_OPERATION_CONCURRENCY, async (codespace) => {
+        try {
+          await operation(codespace);
+        } finally {
+          completed++;
+          progress.report({
+            increment: 100 / total,
+            message: vscode.l10n.t('{0} of {1} done', completed, total),
+          });
+          triggerRefresh();
+        }
+      });
+
+      outcomes.forEach((outcome, index) => {
+        const codespace = codespaces[index];
+        if (outcome.status === 'fulfilled') {
+          result.succeeded.push(codespace);
+        } else {
+          const error = ensureError(outcome.reason);
+          log(`Failed to ${messages.logAction} codespace ${codespace.name}`, error);
+          result.failed.push({ codespace, error });
+        }
+      });
+    }
+  );
+
+  if (result.failed.length === 0) {
+    void vscode.window.showInformationMessage(messages.success(result.succeeded.length));
+  } else {
+    const failedNames = result.failed.map(({ codespace }) => codespace.displayName).join(', ');
+    void vscode.window.showWarningMessage(
+      vscode.l10n.t('{0} of {1} codespaces succeeded. Failed: {2}', result.succeeded.length, total, failedNames)
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Starts several stopped codespaces. Codespaces that are not stopped are skipped.
+ * @param codespaces - The codespaces to start
+ */
+export async function startMany(codespaces: Codespace[]): Promise<BulkOperationResult | undefined> {
+  const stopped = codespaces.filter((cs) => cs.state === 'Shutdown');
+  if (stopped.length === 0) {
+    void vscode.window.showInformationMessage(vscode.l10n.t('No stopped codespaces selected'));
+    return undefined;
+  }
+
+  return runBulkOperation(
+    stopped,
+    {
+      progressTitle: vscode.l10n.t('Starting {0} codespaces...', stopped.length),
+      success: (count) => vscode.l10n.t('{0} codespaces started', count),
+      logAction: 'start',
+    },
+    async (codespace) => {
+      await ghCli.startCodespace(codespace.name);
+      await ghCli.waitForState(codespace.name, 'Available');
+    }
+  );
+}
+
+/**
+ * Stops several running codespaces. Codespaces that are not running are skipped.
+ * @param codespaces - The codespaces to stop
+ */
+export async function stopMany(codespaces: Codespace[]): Promise<BulkOperationResult | undefined> {
+  const running = codespaces.filter((cs) => cs.state === 'Available');
+  if (running.length === 0) {
+    void vscode.window.showInformationMessage(vscode.l10n.t('No running codespaces selected'));
+    return undefined;
+  }
+
+  return runBulkOperation(
+    running,
+    {
+      progressTitle: vscode.l10n.t('Stopping {0} codespaces...', running.length),
+      success: (count) => vscode.l10n.t('{0} codespaces stopped', count),
+      logAction: 'stop',
+    },
+    async (codespace) => {
+      keepAlive.stop(codespace.name);
+      await ghCli.stopCodespace(codespace.name);
+      await ghCli.waitForState(codespace.name, 'Shutdown');
+    }
+  );
+}
+
+/**
+ * Rebuilds several codespaces after a single confirmation.
+ * @param codespaces - The codespaces to rebuild
+ * @param full - Whether to do a full rebuild without cache
+ */
+export async function rebuildMany(codespaces: Codespace[], full = false): Promise<BulkOperationResult | undefined> {
+  const confirmMessage = full
+    ? vscode.l10n.t('Are you sure you want to fully rebuild {0} codespaces? This will rebuild without cache and may take longer.', codespaces.length)
+    : vscode.l10n.t('Are you sure you want to rebuild {0} codespaces?', codespaces.length);
+
+  const confirmed = await vscode.window.showWarningMessage(
+    confirmMessage,
+    { modal: true, detail: codespaces.map((cs) => cs.displayName).join('\n') },
+    vscode.l10n.t('Rebuild')
+  );
+
+  if (confirmed !== vscode.l10n.t('Rebuild')) {
+    return undefined;
+  }
+
+  return runBulkOperation(
+    codespaces,
+    {
+      progressTitle: vscode.l10n.t('Rebuilding {0} codespaces...', codespaces.length),
+      success: (count) => vscode.l10n.t('Rebuild initiated for {0} codespaces', count),
+      logAction: 'rebuild',
+    },
+    async (codespace) => {
+      await ghCli.rebuildCodespace(codespace.name, full);
+      await waitForStateChange(codespace.name, codespace.state);
+    }
+  );
+}
+
+/**
+ * Deletes several codespaces after a single confirmation.
+ * Codespaces with local work then go through the same save or typed-name
+ * confirmation as deleting a single codespace, and are kept if that is cancelled
+ * or saving their work fails.
+ * @param codespaces - The codespaces to delete
+ */
+export async function deleteMany(codespaces: Codespace[]): Promise<BulkOperationResult | undefined> {
+  const confirmed = await vscode.window.showWarningMessage(
+    vscode.l10n.t('Are you sure you want to delete {0} codespaces? This action cannot be undone and any unsaved changes will be lost.', codespaces.length),
+    {
+      modal: true,
+      detail: codespaces
+        .map((cs) => {
+          const localWork = getLocalWork(cs);
+          return localWork.length > 0 ? `${cs.displayName} (${localWork.join(', ')})` : cs.displayName;
+        })
+        .join('\n'),
+    },
+    vscode.l10n.t('Delete')
+  );
+
+  if (confirmed !== vscode.l10n.t('Delete')) {
+    return undefined;
+  }
+
+  const toDelete: Codespace[] = [];
+  const saveFailed: BulkOperationResult['failed'] = [];
+  for (const codespace of codespaces) {
+    try {
+      const losesWork = await saveLocalWork(codespace);
+      if (losesWork === undefined || (losesWork && !(await confirmDeletingLocalWork(codespace)))) {
+        log(`Keeping codespace ${codespace.name}: deleting its local work was not confirmed`);
+        continue;
+      }
+      toDelete.push(codespace);
+    } catch (err) {
+      // Keep the codespace so the work that could not be saved is not lost
+      const error = ensureError(err);
+      log(`Keeping codespace ${codespace.name}: failed to save its local work`, error);
+      saveFailed.push({ codespace, error });
+    }
+  }
+
+  if (saveFailed.length > 0) {
+    void vscode.window.showWarningMessage(
+      vscode.l10n.t(
+        'Kept {0} because saving their local work failed',
+        saveFailed.map(({ codespace }) => codespace.displayName).join(', ')
+      )
+    );
+  }
+
+  if (toDelete.length === 0) {
+    return saveFailed.length > 0 ? { succeeded: [], failed: saveFailed } : undefined;
+  }
+
+  const result = await runBulkOperation(
+    toDelete,
+    {
+      progressTitle: vscode.l10n.t('Deleting {0} codespaces...', toDelete.length),
+      success: (count) => vscode.l10n.t('{0} codespaces deleted', count),
+      logAction: 'delete',
+    },
+    async (codespace) => {
+      await ghCli.deleteCodespace(codespace.name);
+      await removeSshConfigEntry(codespace.name);
+    }
+  );
+  return { succeeded: result.succeeded, failed: [...saveFailed, ...result.failed] };
+}
+
+interface CleanupPickItem extends vscode.QuickPickItem {
+  codespace?: Codespace;
+}
+
+/**
+ * Finds codespaces that have not been used for the configured number of days
+ * and lets the user pick which of them to delete.
+ * Codespaces without local work are preselected.
+ */
+export async function cleanUpCodespaces(): Promise<BulkOperationResult | undefined> {
+  const unusedDays = config.getCleanupUnusedDays();
+  const cutoff = Date.now() - unusedDays * 24 * 60 * 60 * 1000;
+
+  const codespaces = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Loading codespaces...'),
+      cancellable: false,
+    },
+    () => ghCli.listCodespaces()
+  );
+
+  const stale = codespaces
+    .filter((cs) => !isTransitionalState(cs.state) && new Date(cs.lastUsedAt).getTime() < cutoff)
+    .sort((a, b) => new Date(a.lastUsedAt).getTime() - new Date(b.lastUsedAt).getTime());
+
+  if (stale.length === 0) {
+    void vscode.window.showInformationMessage(
+      vscode.l10n.t('No codespaces have been unused for {0} days or more', unusedDays)
+    );
+    return undefined;
+  }
+
+  const toItem = (codespace: Codespace, localWork: string[]): CleanupPickItem => ({
+    label: codespace.displayName,
+    description: `${codespace.unpublished ? vscode.l10n.t('Unpublished') : codespace.repository} • ${vscode.l10n.t('Last used {0}', getTimeAgo(new Date(codespace.lastUsedAt)))}`,
+    detail: localWork.length > 0 ? `$(warning) ${localWork.join(', ')}` : undefined,
+    picked: localWork.length === 0,
+    codespace,
+  });
+
+  const safeItems: CleanupPickItem[] = [];
+  const localWorkItems: CleanupPickItem[] = [];
+  for (const codespace of stale) {
+    const localWork = getLocalWork(codespace);
+    (localWork.length === 0 ? safeItems : localWorkItems).push(toItem(codespace, localWork));
+  }
+
+  const items: CleanupPickItem[] = [];
+  if (safeItems.length > 0) {
+    items.push({ label: vscode.l10n.t('Safe to Delete'), kind: vscode.QuickPickItemKind.Separator }, ...safeItems);
+  }
+  if (localWorkItems.length > 0) {
+    items.push({ label: vscode.l10n.t('Has Local Work'), kind: vscode.QuickPickItemKind.Separator }, ...localWorkItems);
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: vscode.l10n.t('Clean Up Codespaces'),
+    placeHolder: vscode.l10n.t('Select codespaces unused for {0} days or more to delete', unusedDays),
+    canPickMany: true,
+    matchOnDescription: true,
+  });
+
+  const chosen = (selected ?? [])
+    .map((item) => item.codespace)
+    .filter((cs): cs is Codespace => cs !== undefined);
+  if (chosen.length === 0) {
+    return undefined;
+  }
+
+  return deleteMany(chosen);
+}
+
+interface DurationPickItem extends vscode.QuickPickItem {
+  minutes?: number;
+}
+
+interface CodespaceTemplate extends vscode.QuickPickItem {
+  repo: string;
+}
+
+/**
+ * Returns GitHub's codespace templates. Codespaces created from these
+ * are not tied to a repository until they are published.
+ */
+function getCodespaceTemplates(): CodespaceTemplate[] {
+  return [
+    { label: vscode.l10n.t('Blank'), description: vscode.l10n.t('Start with an empty directory'), repo: 'github/codespaces-blank' },
+    { label: 'Node.js (Express)', repo: 'github/codespaces-express' },
+    { label: 'React', repo: 'github/codespaces-react' },
+    { label: 'Next.js', repo: 'github/codespaces-nextjs' },
+    { label: 'Python (Flask)', repo: 'github/codespaces-flask' },
+    { label: 'Django', repo: 'github/codespaces-django' },
+    { label: 'Jupyter Notebook', repo: 'github/codespaces-jupyter' },
+    { label: 'Ruby on Rails', repo: 'github/codespaces-rails' },
+  ].map((template) => ({ ...template, detail: template.repo }));
+}
+
+const LAST_LOCATION_KEY = 'lastCreateLocation';
+
+interface LocationPickItem extends vscode.QuickPickItem {
+  location?: string;
+}
+
+/**
+ * Shows a quick pick of codespace regions, with the last used region listed first.
+ * @param state - Memento used to remember the last chosen region
+ * @returns The selected location (undefined for automatic), or null if the user cancelled
+ */
+async function pickLocation(state: vscode.Memento): Promise<string | undefined | null> {
+  // Region names are case-insensitive; older versions saved 'SoutheastAsia'
+  const lastLocation = state.get<string>(LAST_LOCATION_KEY)?.toLowerCase();
+
+  const items: LocationPickItem[] = [
+    {
+      label: vscode.l10n.t('$(globe) Default'),
+      description: vscode.l10n.t('Let GitHub choose the region closest to you'),
+    },
+    ...CODESPACE_LOCATIONS.map((location) => ({
+      label: formatLocation(location),
+      description: location.toLowerCase() === lastLocation ? vscode.l10n.t('Last used') : '',
+      detail: location,
+      location,
+    })),
+  ];
+
+  // Move the remembered region to the top so Enter accepts it
+  const lastIndex = items.findIndex((item) => item.location?.toLowerCase() === lastLocation);
+  if (lastIndex > 0) {
+    items.unshift(...items.splice(lastIndex, 1));
+  }
+
+  const selection = await vscode.window.showQuickPick(items, {
+    placeHolder: vscode.l10n.t('Select a region'),
+    title: vscode.l10n.t('Create Codespace - Select Region'),
+  });
+
+  if (!selection) {
+    return null;
+  }
+
+  await state.update(LAST_LOCATION_KEY, selection.location);
+  return selection.location;
+}
+
+const IDLE_TIMEOUT_PRESETS_MINUTES = [5, 15, 30, 60, 120, 240];
+const RETENTION_PERIOD_PRESETS_DAYS = [1, 3, 7, 14, 30];
+
+/**
+ * Shows a quick pick of duration presets, with the configured default listed first.
+ * @returns The selected duration in minutes (undefined for the account default),
+ *   or null if the user cancelled
+ */
+async function pickDuration(
+  presetsMinutes: number[],
+  defaultMinutes: number | undefined,
+  options: { title: string; placeHolder: string; accountDefaultDescription: string }
+): Promise<number | undefined | null> {
+  const items: DurationPickItem[] = [
+    {
+      label: defaultMinutes
+        ? `$(settings-gear) ${formatDuration(defaultMinutes)}`
+        : vscode.l10n.t('$(settings-gear) Default'),
+      description: defaultMinutes
+        ? vscode.l10n.t('Default from settings')
+        : options.accountDefaultDescription,
+      minutes: defaultMinutes,
+    },
+    ...presetsMinutes
+      .filter((minutes) => minutes !== defaultMinutes)
+      .map((minutes) => ({
+        label: formatDuration(minutes),
+        minutes,
+      })),
+  ];
+
+  const selection = await vscode.window.showQuickPick(items, {
+    placeHolder: options.placeHolder,
+    title: options.title,
+  });
+
+  return selection ? selection.minutes : null;
+}
+
+interface MachineTypePickItem extends vscode.QuickPickItem {
+  machineType?: string;
+}
+
+/**
+ * Lets the user pick a machine type, listing machines with a ready prebuild first.
+ * @param repo - The repository in owner/name format
+ * @param branch - Optional branch name
+ * @returns The machine type name (undefined for the repository default), or null if the user cancelled
+ */
+async function pickMachineType(repo: string, branch?: string): Promise<string | undefined | null> {
+  let machineTypes: ghCli.MachineType[] = [];
+  try {
+    machineTypes = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: vscode.l10n.t('Loading machine types...'),
+        cancellable: false,
+      },
+      async () => {
+        return await ghCli.listMachineTypes(repo, branch);
+      }
+    );
+  } catch (error) {
+    log('Failed to load machine types, using default', error instanceof Error ? error : undefined);
+  }
+
+  if (machineTypes.length === 0) {
+    return undefined;
+  }
+
+  // Machines with a ready prebuild start in seconds, so list them first
+  const sortedMachines = [...machineTypes].sort((a, b) => {
+    const aReady = a.prebuildAvailability === 'ready';
+    const bReady = b.prebuildAvailability === 'ready';
+    if (aReady && !bReady) return -1;
+    if (!aReady && bReady) return 1;
+    return 0;
+  });
+
+  const machineItems: MachineTypePickItem[] = [
+    { label: vscode.l10n.t('$(server) Default'), description: vscode.l10n.t('Use the repository default machine type') },
+    ...sortedMachines.map((machine) => {
+      const specs = vscode.l10n.t('{0} cores, {1} RAM, {2} storage', machine.cpus, formatBytes(machine.memoryInBytes), formatBytes(machine.storageInBytes));
+      let description = specs;
+      if (machine.prebuildAvailability === 'ready') {
+        description = vscode.l10n.t('{0} • Prebuild ready', specs);
+      } else if (machine.prebuildAvailability === 'in_progress') {
+        description = vscode.l10n.t('{0} • Prebuild in progress', specs);
+      }
+      return {
+        label: machine.prebuildAvailability === 'ready' ? `$(zap) ${machine.displayName}` : machine.displayName,
+        description,
+        detail: machine.name,
+        machineType: machine.name,
+      };
+    }),
+  ];
+
+  const machineSelection = await vscode.window.showQuickPick(machineItems, {
+    placeHolder: vscode.l10n.t('Select a machine type'),
+    title: vscode.l10n.t('Create Codespace - Select Machine Type'),
+  });
+
+  if (!machineSelection) {
+    return null;
+  }
+
+  return machineSelection.machineType;
+}
+
+/**
+ * Lets the user pick one of their recently pushed repositories or enter one manually.
+ * @returns The repository in owner/name format, or undefined if cancelled
+ */
+async function pickRepository(): Promise<string | undefined> {
+  const repos = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Loading repositories (this may take a moment)...'),
+      cancellable: false,
+    },
+    async () => {
+      return await ghCli.listRepositories();
+    }
+  );
+
+  const repoItems: vscode.QuickPickItem[] = repos.map((repo) => ({
+    label: repo.nameWithOwner,
+    description: repo.isPrivate ? vscode.l10n.t('$(lock) Private') : vscode.l10n.t('$(globe) Public'),
+    detail: repo.description || undefined,
+  }));
+
+  // Add option to enter repository manually
   repoItems.push({
     label: vscode.l10n.t('$(edit) Enter repository manually...'),
     description: '',
@@ -436,7 +1658,6 @@ export async function createCodespace(): Promise<string | undefined> {
     return undefined;
   }
 
-  let repo: string;
   if (selectedRepo.label === vscode.l10n.t('$(edit) Enter repository manually...')) {
     const manualRepo = await vscode.window.showInputBox({
       prompt: vscode.l10n.t('Enter the repository (owner/repo)'),
@@ -450,12 +1671,27 @@ export async function createCodespace(): Promise<string | undefined> {
       },
     });
 
-    if (!manualRepo) {
-      return undefined;
-    }
-    repo = manualRepo;
-  } else {
-    repo = selectedRepo.label;
+    return manualRepo || undefined;
+  }
+
+  return selectedRepo.label;
+}
+
+interface DevcontainerPickItem extends vscode.QuickPickItem {
+  path?: string;
+}
+
+/**
+ * Creates a new codespace with an interactive UI flow.
+ * @param state - Memento used to remember wizard choices between runs
+ * @returns The name of the created codespace, or undefined if cancelled
+ */
+export async function createCodespace(state: vscode.Memento): Promise<string | undefined> {
+  // Step 1: Select repository
+  const repo = await pickRepository();
+
+  if (!repo) {
+    return undefined;
   }
 
   // Step 2: Select branch
@@ -499,49 +1735,92 @@ export async function createCodespace(): Promise<string | undefined> {
     }
   }
 
-  // Step 3: Select machine type
-  let machineTypes: ghCli.MachineType[] = [];
+  // Step 3: Select devcontainer configuration (only when there is a choice)
+  let devcontainers: ghCli.DevcontainerConfig[] = [];
   try {
-    machineTypes = await vscode.window.withProgress(
+    devcontainers = await vscode.window.withProgress(
       {
         location: vscode.ProgressLocation.Notification,
-        title: vscode.l10n.t('Loading machine types...'),
+        title: vscode.l10n.t('Loading devcontainer configurations...'),
         cancellable: false,
       },
       async () => {
-        return await ghCli.listMachineTypes(repo, selectedBranch);
+        return await ghCli.listDevcontainers(repo, selectedBranch);
       }
     );
   } catch (error) {
-    log('Failed to load machine types, using default', error instanceof Error ? error : undefined);
+    log('Failed to load devcontainer configurations, using default', error instanceof Error ? error : undefined);
   }
 
-  let selectedMachine: string | undefined;
-  if (machineTypes.length > 0) {
-    const machineItems: vscode.QuickPickItem[] = [
-      { label: vscode.l10n.t('$(server) Default'), description: vscode.l10n.t('Use the repository default machine type') },
-      ...machineTypes.map((machine) => ({
-        label: machine.displayName,
-        description: vscode.l10n.t('{0} cores, {1} RAM, {2} storage', machine.cpus, formatBytes(machine.memoryInBytes), formatBytes(machine.storageInBytes)),
-        detail: machine.name,
+  let selectedDevcontainer: string | undefined;
+  if (devcontainers.length > 1) {
+    const devcontainerItems: DevcontainerPickItem[] = [
+      { label: vscode.l10n.t('$(file-code) Default'), description: vscode.l10n.t('Use the repository default configuration') },
+      ...devcontainers.map((devcontainer) => ({
+        label: devcontainer.name || devcontainer.path,
+        description: '',
+        detail: devcontainer.path,
+        path: devcontainer.path,
       })),
     ];
 
-    const machineSelection = await vscode.window.showQuickPick(machineItems, {
-      placeHolder: vscode.l10n.t('Select a machine type'),
-      title: vscode.l10n.t('Create Codespace - Select Machine Type'),
+    const devcontainerSelection = await vscode.window.showQuickPick(devcontainerItems, {
+      placeHolder: vscode.l10n.t('Select a devcontainer configuration'),
+      title: vscode.l10n.t('Create Codespace - Select Dev Container Configuration'),
     });
 
-    if (!machineSelection) {
+    if (!devcontainerSelection) {
       return undefined;
     }
 
-    if (!machineSelection.label.startsWith('$(server)')) {
-      selectedMachine = machineSelection.detail;
+    selectedDevcontainer = devcontainerSelection.path;
+  }
+
+  // Step 4: Select machine type
+  const selectedMachine = await pickMachineType(repo, selectedBranch);
+
+  if (selectedMachine === null) {
+    return undefined;
+  }
+
+  // Step 5: Select region
+  const location = await pickLocation(state);
+
+  if (location === null) {
+    return undefined;
+  }
+
+  // Step 6: Idle timeout
+  const idleTimeoutMinutes = await pickDuration(
+    IDLE_TIMEOUT_PRESETS_MINUTES,
+    config.getDefaultIdleTimeoutMinutes(),
+    {
+      title: vscode.l10n.t('Create Codespace - Idle Timeout'),
+      placeHolder: vscode.l10n.t('Stop the codespace after it has been idle for...'),
+      accountDefaultDescription: vscode.l10n.t('Use your account default idle timeout'),
+    }
+  );
+
+  if (idleTimeoutMinutes === null) {
+    return undefined;
+  }
+
+  // Step 7: Retention period
+  const retentionPeriodMinutes = await pickDuration(
+    RETENTION_PERIOD_PRESETS_DAYS.map((days) => days * 24 * 60),
+    config.getDefaultRetentionPeriodMinutes(),
+    {
+      title: vscode.l10n.t('Create Codespace - Retention Period'),
+      placeHolder: vscode.l10n.t('Delete the codespace after it has been stopped for...'),
+      accountDefaultDescription: vscode.l10n.t('Use your account default retention period'),
     }
+  );
+
+  if (retentionPeriodMinutes === null) {
+    return undefined;
   }
 
-  // Step 4: Optional display name
+  // Step 8: Optional display name
   const displayName = await vscode.window.showInputBox({
     prompt: vscode.l10n.t('Enter a display name for the codespace'),
     placeHolder: vscode.l10n.t('Generated if left blank'),
@@ -563,7 +1842,157 @@ export async function createCodespace(): Promise<string | undefined> {
         repo,
         branch: selectedBranch,
         machineType: selectedMachine,
+        location,
         displayName: displayName || undefined,
+        idleTimeoutMinutes,
+        retentionPeriodMinutes,
+        devcontainerPath: selectedDevcontainer,
+      });
+    }
+  );
+
+  void vscode.window.showInformationMessage(vscode.l10n.t('Codespace created: {0}', codespaceName));
+  return codespaceName;
+}
+
+/**
+ * Creates a new codespace on the head branch of an open pull request.
+ * @param state - Memento used to remember wizard choices between runs
+ * @param repository - Optional repository to skip the repository step
+ * @returns The name of the created codespace, or undefined if cancelled
+ */
+export async function createCodespaceForPullRequest(
+  state: vscode.Memento,
+  repository?: string
+): Promise<string | undefined> {
+  // Step 1: Select repository
+  const repo = repository ?? (await pickRepository());
+
+  if (!repo) {
+    return undefined;
+  }
+
+  // Step 2: Select pull request
+  const pullRequests = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Loading pull requests...'),
+      cancellable: false,
+    },
+    async () => {
+      return await ghCli.listPullRequests(repo);
+    }
+  );
+
+  if (pullRequests.length === 0) {
+    void vscode.window.showInformationMessage(vscode.l10n.t('No open pull requests found for {0}', repo));
+    return undefined;
+  }
+
+  const pullRequestItems = pullRequests.map((pr) => ({
+    label: `#${pr.number} ${pr.title}`,
+    description: pr.isCrossRepository
+      ? vscode.l10n.t('$(repo-forked) {0} (fork)', pr.headRefName)
+      : `$(git-branch) ${pr.headRefName}`,
+    detail: pr.author ? vscode.l10n.t('by {0}', pr.author) : undefined,
+    pullRequest: pr,
+  }));
+
+  const pullRequestSelection = await vscode.window.showQuickPick(pullRequestItems, {
+    placeHolder: vscode.l10n.t('Select a pull request'),
+    title: vscode.l10n.t('Create Codespace for Pull Request - Select Pull Request'),
+    matchOnDescription: true,
+    matchOnDetail: true,
+  });
+
+  if (!pullRequestSelection) {
+    return undefined;
+  }
+  const pullRequest = pullRequestSelection.pullRequest;
+
+  // Step 3: Select machine type (fork branches don't exist in the base repository)
+  const selectedMachine = await pickMachineType(
+    repo,
+    pullRequest.isCrossRepository ? undefined : pullRequest.headRefName
+  );
+
+  if (selectedMachine === null) {
+    return undefined;
+  }
+
+  // Step 4: Select region
+  const location = await pickLocation(state);
+
+  if (location === null) {
+    return undefined;
+  }
+
+  const codespaceName = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Creating codespace for pull request #{0}...', pullRequest.number),
+      cancellable: false,
+    },
+    async () => {
+      return await ghCli.createCodespaceForPullRequest({
+        repo,
+        pullNumber: pullRequest.number,
+        machineType: selectedMachine,
+        location,
+        idleTimeoutMinutes: config.getDefaultIdleTimeoutMinutes(),
+        retentionPeriodMinutes: config.getDefaultRetentionPeriodMinutes(),
+      });
+    }
+  );
+
+  void vscode.window.showInformationMessage(vscode.l10n.t('Codespace created: {0}', codespaceName));
+  return codespaceName;
+}
+
+/**
+ * Creates a new codespace from one of GitHub's templates.
+ * @param state - Memento used to remember wizard choices between runs
+ * @returns The name of the created codespace, or undefined if cancelled
+ */
+export async function createCodespaceFromTemplate(state: vscode.Memento): Promise<string | undefined> {
+  // Step 1: Select template
+  const template = await vscode.window.showQuickPick(getCodespaceTemplates(), {
+    placeHolder: vscode.l10n.t('Select a template'),
+    title: vscode.l10n.t('Create Codespace from Template - Select Template'),
+    matchOnDetail: true,
+  });
+
+  if (!template) {
+    return undefined;
+  }
+
+  // Step 2: Select machine type
+  const selectedMachine = await pickMachineType(template.repo);
+
+  if (selectedMachine === null) {
+    return undefined;
+  }
+
+  // Step 3: Select region
+  const location = await pickLocation(state);
+
+  if (location === null) {
+    return undefined;
+  }
+
+  const codespaceName = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Creating codespace from template {0}...', template.label),
+      cancellable: false,
+    },
+    async () => {
+      return await ghCli.createCodespace({
+        repo: template.repo,
+        machineType: selectedMachine,
+        location,
+        idleTimeoutMinutes: config.getDefaultIdleTimeoutMinutes(),
+        retentionPeriodMinutes: config.getDefaultRetentionPeriodMinutes(),
       });
     }
   );
@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import { SshConfigOption } from './types';
+
+const CONFIG_SECTION = 'openSpaces';
+
+function getConfiguration(): vscode.WorkspaceConfiguration {
+  return vscode.workspace.getConfiguration(CONFIG_SECTION);
+}
+
+function getPositiveNumber(key: string): number | undefined {
+  const value = getConfiguration().get<number | null>(key);
+  return typeof value === 'number' && value > 0 ? value : undefined;
+}
+
+/**
+ * Gets the default idle timeout for new codespaces.
+ * @returns The idle timeout in minutes, or undefined to use the account default
+ */
+export function getDefaultIdleTimeoutMinutes(): number | undefined {
+  return getPositiveNumber('create.defaultIdleTimeoutMinutes');
+}
+
+/**
+ * Gets the default retention period for new codespaces.
+ * @returns The retention period in minutes, or undefined to use the account default
+ */
+export function getDefaultRetentionPeriodMinutes(): number | undefined {
+  const days = getPositiveNumber('create.defaultRetentionPeriodDays');
+  return days !== undefined ? days * 24 * 60 : undefined;
+}
+
+/**
+ * Gets how many days a codespace must be unused before cleanup suggests deleting it.
+ * @returns The number of days (default: 30)
+ */
+export function getCleanupUnusedDays(): number {
+  return getPositiveNumber('cleanup.unusedDays') ?? 30;
+}
+
+/**
+ * Gets the longest a codespace is kept alive after turning on keep alive.
+ * @returns The duration in minutes (default: 240)
+ */
+export function getKeepAliveMaxDurationMinutes(): number {
+  return getPositiveNumber('keepAlive.maxDurationMinutes') ?? 240;
+}
+
+/**
+ * Checks whether the connected codespace is stopped on disconnect or when the remote window closes.
+ */
+export function getAutoStopOnDisconnect(): boolean {
+  return getConfiguration().get<boolean>('autoStop.onDisconnect', false);
+}
+
+/**
+ * Checks whether all running codespaces except pinned ones are stopped when the extension deactivates.
+ */
+export function getAutoStopAllRunningOnExit(): boolean {
+  return getConfiguration().get<boolean>('autoStop.allRunningOnExit', false);
+}
+
+/**
+ * Gets the names or display names of codespaces that are never stopped automatically.
+ */
+export function getAutoStopPinnedCodespaces(): string[] {
+  return getConfiguration().get<string[]>('autoStop.pinnedCodespaces', []);
+}
+
+/**
+ * Gets how long to wait before automatically stopping a codespace,
+ * so that reloading or reconnecting the window does not stop it.
+ * @returns The grace period in seconds (default: 60)
+ */
+export function getAutoStopGracePeriodSeconds(): number {
+  const value = getConfiguration().get<number>('autoStop.gracePeriodSeconds', 60);
+  return value >= 0 ? value : 60;
+}
+
+/**
+ * Gets how often the connected codespace is checked for being stopped or unreachable.
+ * @returns The interval in seconds, or 0 to turn checks off (default: 60)
+ */
+export function getConnectionMonitorIntervalSeconds(): number {
+  const value = getConfiguration().get<number>('connectionMonitor.intervalSeconds', 60);
+  return value >= 0 ? value : 60;
+}
+
+export type RemoteSshAdapterSetting = 'auto' | 'openRemoteSsh' | 'microsoft' | 'other';
+
+/**
+ * Gets which Remote-SSH extension is used to open codespaces.
+ * @returns The selected adapter (default: auto)
+ */
+export function getRemoteSshAdapter(): RemoteSshAdapterSetting {
+  return getConfiguration().get<RemoteSshAdapterSetting>('remoteSsh.adapter', 'auto');
+}
+
+/**
+ * Gets the extension ID of another Remote-SSH fork to use.
+ * @returns The extension ID, or undefined if not set
+ */
+export function getRemoteSshExtensionId(): string | undefined {
+  return getConfiguration().get<string>('remoteSsh.extensionId')?.trim() || undefined;
+}
+
+type SshOptionValue = string | number | boolean | string[] | null;
+
+/**
+ * Merges option maps so that later maps replace earlier ones keyword by keyword
+ * (case-insensitively). A null value removes the option.
+ */
+function mergeSshOptionMaps(...maps: Record<string, SshOptionValue>[]): Map<string, [string, SshOptionValue]> {
+  const merged = new Map<string, [string, SshOptionValue]>();
+  for (const map of maps) {
+    for (const [keyword, value] of Object.entries(map)) {
+      merged.set(keyword.toLowerCase(), [keyword, value]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Gets the extra SSH options to add to a codespace's host entry.
+ * Options in `ssh.repositoryExtraOptions` for the codespace's repository replace
+ * global options with the same keyword.
+ * @param repository - The codespace's repository (owner/name), if any
+ * @returns The options in order; list values produce one option per item
+ */
+export function getSshExtraOptions(repository?: string): SshConfigOption[] {
+  const configuration = getConfiguration();
+  const globalOptions = configuration.get<Record<string, SshOptionValue>>('ssh.extraOptions', {});
+  const repositoryOptions = configuration.get<Record<string, Record<string, SshOptionValue>>>(
+    'ssh.repositoryExtraOptions',
+    {}
+  );
+  const repositoryKey = repository
+    ? Object.keys(repositoryOptions).find((key) => key.toLowerCase() === repository.toLowerCase())
+    : undefined;
+
+  const options: SshConfigOption[] = [];
+  const merged = mergeSshOptionMaps(globalOptions, repositoryKey ? repositoryOptions[repositoryKey] : {});
+  for (const [keyword, value] of merged.values()) {
+    if (value === null || value === '') {
+      continue;
+    }
+    const values = Array.isArray(value) ? value : [value];
+    for (const item of values) {
+      options.push({
+        keyword,
+        value: typeof item === 'boolean' ? (item ? 'yes' : 'no') : String(item),
+      });
+    }
+  }
+  return options;
+}
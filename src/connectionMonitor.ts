@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import * as ghCli from './ghCli';
+import { Codespace } from './types';
+import { isTransitionalState } from './constants';
+import { log } from './extension';
+import { ensureError } from './utils/errors';
+
+type ConnectionProblem = 'deleted' | 'stopped' | 'unreachable';
+
+/**
+ * Periodically checks that the connected codespace is still running and
+ * reachable over SSH, and offers to restart and reconnect when it is not.
+ */
+export class ConnectionMonitor implements vscode.Disposable {
+  private timer: NodeJS.Timeout | null = null;
+  private windowStateListener: vscode.Disposable;
+  private checking = false;
+  private reportedProblem: ConnectionProblem | undefined;
+
+  /**
+   * @param codespaceName - The connected codespace
+   * @param intervalSeconds - Seconds between checks
+   * @param reconnect - Restarts the codespace and reconnects the window
+   */
+  constructor(
+    private readonly codespaceName: string,
+    intervalSeconds: number,
+    private readonly reconnect: (codespace: Codespace) => Promise<void>
+  ) {
+    this.timer = setInterval(() => void this.check(), intervalSeconds * 1000);
+    // Check right away when the user comes back to the window
+    this.windowStateListener = vscode.window.onDidChangeWindowState((state) => {
+      if (state.focused) {
+        void this.check();
+      }
+    });
+  }
+
+  /**
+   * Checks the codespace state, and SSH reachability while the user is active.
+   * SSH probes count as codespace activity, so they are skipped while the window
+   * is unattended to let the idle timeout stop the codespace as usual.
+   */
+  async check(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+
+    try {
+      const codespace = await ghCli.getCodespace(this.codespaceName);
+      if (!codespace) {
+        this.report('deleted');
+        return;
+      }
+      if (isTransitionalState(codespace.state) && codespace.state !== 'ShuttingDown') {
+        // Starting or rebuilding, e.g. from another window; check again later
+        return;
+      }
+      if (codespace.state !== 'Available') {
+        this.report('stopped', codespace);
+        return;
+      }
+
+      const windowState = vscode.window.state;
+      if (windowState.focused && windowState.active !== false) {
+        try {
+          await ghCli.waitForSshReady(this.codespaceName, 2, 5000, log);
+        } catch (error) {
+          log(`Codespace ${this.codespaceName} is not reachable over SSH`, ensureError(error));
+          this.report('unreachable', codespace);
+          return;
+        }
+      }
+
+      this.reportedProblem = undefined;
+    } catch (error) {
+      // gh itself failed, e.g. while offline; this says nothing about the codespace
+      log(`Failed to check connection to codespace ${this.codespaceName}`, ensureError(error));
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Notifies about a problem once, until the connection is healthy again.
+   */
+  private report(problem: ConnectionProblem, codespace?: Codespace): void {
+    if (this.reportedProblem === problem) {
+      return;
+    }
+    this.reportedProblem = problem;
+    log(`Connection problem with codespace ${this.codespaceName}: ${problem}`);
+
+    if (problem === 'deleted' || !codespace) {
+      void vscode.window.showErrorMessage(vscode.l10n.t('Codespace {0} no longer exists', this.codespaceName));
+      return;
+    }
+
+    const message = problem === 'stopped'
+      ? vscode.l10n.t('Codespace {0} is no longer running.', codespace.displayName)
+      : vscode.l10n.t('Lost the SSH connection to codespace {0}.', codespace.displayName);
+    const reconnectLabel = vscode.l10n.t('Restart & Reconnect');
+
+    void vscode.window.showWarningMessage(message, reconnectLabel).then(async (selection) => {
+      if (selection === reconnectLabel) {
+        await this.reconnect(codespace);
+      }
+    });
+  }
+
+  dispose(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.windowStateListener.dispose();
+  }
+}
@@ -18,3 +18,26 @@ export const TRANSITIONAL_STATES: CodespaceState[] = [
 export function isTransitionalState(state: CodespaceState): boolean {
   return TRANSITIONAL_STATES.includes(state);
 }
+
+/**
+ * Checks that a codespace name is alphanumeric with hyphens, so it is safe
+ * to pass to gh and to put in API paths.
+ */
+export function isValidCodespaceName(name: string): boolean {
+  return /^[a-zA-Z0-9][-a-zA-Z0-9]*$/.test(name);
+}
+
+/**
+ * Regions that can be chosen when creating a codespace, spelled as the API returns them.
+ */
+export const CODESPACE_LOCATIONS = ['EastUs', 'WestUs2', 'WestEurope', 'SouthEastAsia'];
+
+/**
+ * Maximum number of codespaces operated on at once by bulk actions.
+ */
+export const BULK_OPERATION_CONCURRENCY = 3;
+
+/**
+ * Maximum number of codespaces shown in the tree's "Recent" group.
+ */
+export const RECENT_TREE_LIMIT = 3;
@@ -0,0 +1,59 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { updateStore } from './autoStopStore';
+import { isValidCodespaceName } from './constants';
+
+/**
+ * Entry point of the process that carries out stops scheduled by autoStop.
+ * It runs detached from the editor as plain Node.js, so that a stop scheduled
+ * when the last window closes still happens once the grace period has passed.
+ * Nothing it imports may depend on vscode.
+ *
+ * Arguments: store file, scheduledAt, delay in ms, codespace names.
+ */
+
+const execFileAsync = promisify(execFile);
+
+const GH_TIMEOUT_MS = 30000;
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Stops a codespace unless it was stopped already or used since the stop was scheduled,
+ * e.g. in a browser or from another machine.
+ */
+async function stopIfUnused(codespaceName: string, scheduledAt: number): Promise<void> {
+  const { stdout } = await execFileAsync(
+    'gh',
+    ['api', `/user/codespaces/${codespaceName}`, '--jq', '[.state, .last_used_at // ""] | @tsv'],
+    { timeout: GH_TIMEOUT_MS }
+  );
+  const [state, lastUsedAt] = stdout.trim().split('\t');
+  if (state !== 'Available' || (lastUsedAt && Date.parse(lastUsedAt) > scheduledAt)) {
+    return;
+  }
+  await execFileAsync('gh', ['api', '-X', 'POST', `/user/codespaces/${codespaceName}/stop`], { timeout: GH_TIMEOUT_MS });
+}
+
+async function main(): Promise<void> {
+  const [storeFile, scheduledAtArg, delayArg, ...codespaceNames] = process.argv.slice(2);
+  const scheduledAt = Number(scheduledAtArg);
+  await delay(Number(delayArg));
+
+  // Take over the stops that were not cancelled or rescheduled in the meantime
+  const due = await updateStore(storeFile, (store) => {
+    const names = codespaceNames.filter((name) => store.pendingStops[name]?.scheduledAt === scheduledAt);
+    for (const name of names) {
+      delete store.pendingStops[name];
+    }
+    return names;
+  });
+
+  await Promise.allSettled(due.filter(isValidCodespaceName).map((name) => stopIfUnused(name, scheduledAt)));
+}
+
+void main().catch(() => {
+  process.exitCode = 1;
+});
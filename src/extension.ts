@@ -1,14 +1,24 @@
 import * as vscode from 'vscode';
 import { CodespaceTreeProvider } from './ui/codespaceTreeProvider';
-import { CodespaceTreeItem } from './ui/treeItems';
+import { CodespaceLogProvider, LOG_SCHEME } from './ui/codespaceLogProvider';
+import { CodespaceStatusBar } from './ui/codespaceStatusBar';
+import { ConnectionMonitor } from './connectionMonitor';
+import { CodespaceTreeItem, PortTreeItem, RepositoryTreeItem } from './ui/treeItems';
+import * as autoStop from './autoStop';
 import * as codespaceManager from './codespaceManager';
+import * as config from './config';
 import * as ghCli from './ghCli';
+import * as keepAlive from './keepAlive';
+import * as portForwarding from './portForwarding';
+import * as recentCodespaces from './recentCodespaces';
+import * as remoteSsh from './remoteSsh';
 import * as sshConfigManager from './sshConfigManager';
 import { ensureError } from './utils/errors';
-import { Codespace } from './types';
+import { Codespace, GhCliError } from './types';
 
 let treeProvider: CodespaceTreeProvider;
 let outputChannel: vscode.OutputChannel;
+let extensionContext: vscode.ExtensionContext | undefined;
 
 // Auth polling state (module-level for cleanup in deactivate)
 let authPollingInterval: NodeJS.Timeout | null = null;
@@ -36,6 +46,25 @@ export function log(message: string, error?: Error): void {
   }
 }
 
+/**
+ * Shows an error notification for a codespace operation.
+ * Offers to open the codespace logs when the codespace is in a failed state.
+ */
+function showCodespaceError(message: string, error: Error, codespace: Codespace): void {
+  if (!(error instanceof GhCliError && error.type === 'CODESPACE_FAILED')) {
+    void vscode.window.showErrorMessage(message);
+    return;
+  }
+
+  void vscode.window.showErrorMessage(message, vscode.l10n.t('View Logs')).then((selection) => {
+    if (selection === vscode.l10n.t('View Logs')) {
+      void codespaceManager.viewLogs(codespace).catch((logError: unknown) => {
+        log(`Failed to open logs for codespace ${codespace.name}`, ensureError(logError));
+      });
+    }
+  });
+}
+
 function getStateLabel(state: string): string {
   switch (state) {
     case 'Available': return vscode.l10n.t('$(circle-filled) Running');
@@ -48,7 +77,11 @@ function getStateLabel(state: string): string {
 
 interface PickCodespaceOptions {
   title: string;
-  stateFilter?: 'running' | 'stopped';
+  stateFilter?: 'running' | 'stopped' | 'keepAlive';
+}
+
+interface CodespacePickItem extends vscode.QuickPickItem {
+  codespace?: Codespace;
 }
 
 async function pickCodespace(options: PickCodespaceOptions): Promise<Codespace | undefined> {
@@ -80,14 +113,38 @@ async function pickCodespace(options: PickCodespaceOptions): Promise<Codespace |
       void vscode.window.showInformationMessage(vscode.l10n.t('No stopped codespaces found'));
       return undefined;
     }
+  } else if (options.stateFilter === 'keepAlive') {
+    codespaces = allCodespaces.filter((cs) => keepAlive.isActive(cs.name));
+    if (codespaces.length === 0) {
+      void vscode.window.showInformationMessage(vscode.l10n.t('No codespaces are being kept alive'));
+      return undefined;
+    }
   }
 
-  const items = codespaces.map((cs) => ({
+  const toItem = (cs: Codespace): CodespacePickItem => ({
     label: cs.displayName,
     description: getStateLabel(cs.state),
     detail: `${cs.repository} • ${cs.branch || 'default branch'}`,
     codespace: cs,
-  }));
+  });
+
+  // List recently connected codespaces first
+  const recentNames = extensionContext
+    ? recentCodespaces.getRecent(extensionContext.globalState).map((entry) => entry.name)
+    : [];
+  const recent = recentNames
+    .map((name) => codespaces.find((cs) => cs.name === name))
+    .filter((cs): cs is Codespace => cs !== undefined);
+  const others = codespaces.filter((cs) => !recentNames.includes(cs.name));
+
+  const items: CodespacePickItem[] = recent.length > 0
+    ? [
+      { label: vscode.l10n.t('Recent'), kind: vscode.QuickPickItemKind.Separator },
+      ...recent.map(toItem),
+      { label: vscode.l10n.t('Other Codespaces'), kind: vscode.QuickPickItemKind.Separator },
+      ...others.map(toItem),
+    ]
+    : others.map(toItem);
 
   const selected = await vscode.window.showQuickPick(items, {
     placeHolder: vscode.l10n.t('Select a codespace'),
@@ -97,6 +154,21 @@ async function pickCodespace(options: PickCodespaceOptions): Promise<Codespace |
   return selected?.codespace;
 }
 
+/**
+ * Returns the codespaces of a multi-selection in the tree, or undefined
+ * when the command was invoked on a single item.
+ */
+function getSelectedCodespaces(selected?: readonly unknown[]): Codespace[] | undefined {
+  const codespaces = new Map<string, Codespace>();
+  // A codespace can be selected twice when it also appears in the "Recent" group
+  for (const item of selected ?? []) {
+    if (item instanceof CodespaceTreeItem) {
+      codespaces.set(item.codespace.name, item.codespace);
+    }
+  }
+  return codespaces.size > 1 ? [...codespaces.values()] : undefined;
+}
+
 function isInsideCodespace(): boolean {
   // Check environment variables that indicate we're in a codespace
   return (
@@ -107,7 +179,7 @@ function isInsideCodespace(): boolean {
   );
 }
 
-function getConnectedCodespaceName(context: vscode.ExtensionContext): string | undefined {
+function getRemoteHost(): string | undefined {
   if (vscode.env.remoteName !== 'ssh-remote') {
     return undefined;
   }
@@ -117,33 +189,30 @@ function getConnectedCodespaceName(context: vscode.ExtensionContext): string | u
     return undefined;
   }
 
-  const remoteHost = folders[0].uri.authority.replace('ssh-remote+', '');
-  const managedHost = sshConfigManager.getManagedHost();
-  if (remoteHost && managedHost && remoteHost === managedHost) {
-    return context.globalState.get<string>('connectedCodespaceName');
-  }
+  return folders[0].uri.authority.replace('ssh-remote+', '') || undefined;
+}
 
-  return undefined;
+function getConnectedCodespaceName(): string | undefined {
+  // Each connected codespace has its own managed host, so this works per window
+  const remoteHost = getRemoteHost();
+  return remoteHost ? sshConfigManager.getManagedCodespaceName(remoteHost) : undefined;
 }
 
 export function activate(context: vscode.ExtensionContext) {
+  extensionContext = context;
+
   // Create output channel for logging
   outputChannel = vscode.window.createOutputChannel('Open Spaces');
   context.subscriptions.push(outputChannel);
 
   log('Open Spaces extension activating');
 
-  // Check for open-remote-ssh extension
-  const remoteSshExtension = vscode.extensions.getExtension('jeanp413.open-remote-ssh');
-  if (!remoteSshExtension) {
-    void vscode.window.showWarningMessage(
-      vscode.l10n.t('Open Remote - SSH extension is required to connect to codespaces.'),
-      vscode.l10n.t('Install Extension')
-    ).then(selection => {
-      if (selection === vscode.l10n.t('Install Extension')) {
-        void vscode.env.openExternal(vscode.Uri.parse('vscode:extension/jeanp413.open-remote-ssh'));
-      }
-    });
+  // Check for a Remote-SSH extension
+  const remoteSshAdapter = remoteSsh.getAdapter();
+  if (remoteSshAdapter) {
+    log(`Using ${remoteSshAdapter.displayName} (${remoteSshAdapter.extensionId}) to connect`);
+  } else {
+    void remoteSsh.showMissingAdapterDiagnostic();
   }
 
   // Check for gh CLI
@@ -165,23 +234,60 @@ export function activate(context: vscode.ExtensionContext) {
   void vscode.commands.executeCommand('setContext', 'openSpaces.insideCodespace', insideCodespace);
 
   // Create tree provider
-  treeProvider = new CodespaceTreeProvider();
+  treeProvider = new CodespaceTreeProvider(context.globalState);
 
   // When connected to a codespace, only show that codespace
-  const connectedCodespaceName = getConnectedCodespaceName(context);
+  const connectedCodespaceName = getConnectedCodespaceName();
   if (connectedCodespaceName) {
     treeProvider.setConnectedCodespace(connectedCodespaceName);
   }
 
+  // Reconnecting (or reloading the window) within the grace period keeps the codespace running
+  autoStop.initialize(context.globalStorageUri.fsPath, connectedCodespaceName).catch((error: unknown) => {
+    log('Failed to initialize auto-stop', ensureError(error));
+  });
+
+  // Resume keeping codespaces alive, e.g. after the window reloaded to connect
+  keepAlive.initialize(context.globalState);
+
   // Register tree view
   const treeView = vscode.window.createTreeView('openSpaces.codespaceTree', {
     treeDataProvider: treeProvider,
     showCollapseAll: false,
+    canSelectMany: true,
   });
 
   context.subscriptions.push(treeView);
   context.subscriptions.push(treeProvider);
 
+  // Show the connected codespace, or offer to reconnect to the last one
+  const statusBar = new CodespaceStatusBar(context.globalState, connectedCodespaceName);
+  context.subscriptions.push(statusBar);
+
+  // Offer to restart and reconnect when the codespace stops or the tunnel dies
+  const remoteHost = getRemoteHost();
+  const monitorIntervalSeconds = config.getConnectionMonitorIntervalSeconds();
+  if (connectedCodespaceName && remoteHost && monitorIntervalSeconds > 0) {
+    const connectionMonitor = new ConnectionMonitor(connectedCodespaceName, monitorIntervalSeconds, async (codespace) => {
+      try {
+        await autoStop.cancel(codespace.name);
+        await codespaceManager.restartAndReconnect(codespace, remoteHost);
+      } catch (error) {
+        const err = ensureError(error);
+        log(`Failed to reconnect to codespace ${codespace.name}`, err);
+        showCodespaceError(vscode.l10n.t('Failed to connect: {0}', err.message), err, codespace);
+      }
+    });
+    context.subscriptions.push(connectionMonitor);
+  }
+
+  // Register read-only log documents
+  const logProvider = new CodespaceLogProvider();
+  context.subscriptions.push(logProvider);
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(LOG_SCHEME, logProvider)
+  );
+
   // Track tree view visibility for proactive refresh
   context.subscriptions.push(
     treeView.onDidChangeVisibility((e) => {
@@ -197,6 +303,19 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  const connectToCodespace = async (codespace: Codespace, chooseFolder = false): Promise<void> => {
+    try {
+      await autoStop.cancel(codespace.name);
+      // Store history before connect (window reloads after openFolder)
+      await recentCodespaces.addRecent(context.globalState, codespace);
+      await codespaceManager.connect(codespace, context.globalState, chooseFolder);
+    } catch (error) {
+      const err = ensureError(error);
+      log(`Failed to connect to codespace ${codespace.name}`, err);
+      showCodespaceError(vscode.l10n.t('Failed to connect: {0}', err.message), err, codespace);
+    }
+  };
+
   context.subscriptions.push(
     vscode.commands.registerCommand('openSpaces.connect', async (item?: CodespaceTreeItem) => {
       const codespace = item?.codespace ?? await pickCodespace({ title: vscode.l10n.t('Connect to Codespace') });
@@ -204,21 +323,114 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
+      await connectToCodespace(codespace);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.connectToFolder', async (item?: CodespaceTreeItem) => {
+      const codespace = item?.codespace ?? await pickCodespace({ title: vscode.l10n.t('Connect to Folder') });
+      if (!codespace) {
+        return;
+      }
+
+      await connectToCodespace(codespace, true);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.quickConnect', async () => {
+      const codespace = await pickCodespace({ title: vscode.l10n.t('Quick Connect') });
+      if (codespace) {
+        await connectToCodespace(codespace);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.reconnect', async () => {
+      const last = recentCodespaces.getRecent(context.globalState)[0];
+      if (!last) {
+        void vscode.window.showInformationMessage(vscode.l10n.t('No recently used codespaces'));
+        return;
+      }
+
       try {
-        // Store codespace name before connect (window reloads after openFolder)
-        await context.globalState.update('connectedCodespaceName', codespace.name);
-        await codespaceManager.connect(codespace);
+        const codespace = await ghCli.getCodespace(last.name);
+        if (!codespace) {
+          await recentCodespaces.removeRecent(context.globalState, last.name);
+          void vscode.window.showInformationMessage(vscode.l10n.t('Codespace {0} no longer exists', last.displayName));
+          return;
+        }
+        await connectToCodespace(codespace);
       } catch (error) {
-        await context.globalState.update('connectedCodespaceName', undefined);
         const err = ensureError(error);
-        log(`Failed to connect to codespace ${codespace.name}`, err);
+        log(`Failed to reconnect to codespace ${last.name}`, err);
         void vscode.window.showErrorMessage(vscode.l10n.t('Failed to connect: {0}', err.message));
       }
     })
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand('openSpaces.start', async (item?: CodespaceTreeItem) => {
+    vscode.commands.registerCommand('openSpaces.codespaceActions', async () => {
+      const codespace = statusBar.getCodespace()
+        ?? (connectedCodespaceName ? await ghCli.getCodespace(connectedCodespaceName) : null);
+      if (!codespace) {
+        return;
+      }
+
+      const actions = [
+        { label: vscode.l10n.t('$(debug-stop) Stop Codespace'), command: 'openSpaces.stop' },
+        { label: vscode.l10n.t('$(refresh) Rebuild Codespace'), command: 'openSpaces.rebuild' },
+        { label: vscode.l10n.t('$(plug) Open Port...'), command: 'openSpaces.openPort' },
+        { label: vscode.l10n.t('$(terminal) Open SSH Terminal'), command: 'openSpaces.openSshTerminal' },
+      ];
+      const selected = await vscode.window.showQuickPick(actions, {
+        title: codespace.displayName,
+        placeHolder: vscode.l10n.t('Select an action'),
+      });
+      if (!selected) {
+        return;
+      }
+
+      await vscode.commands.executeCommand(selected.command, new CodespaceTreeItem(codespace, true));
+      await statusBar.update();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.openPort', async (item?: CodespaceTreeItem) => {
+      const codespace = item?.codespace ?? await pickCodespace({ title: vscode.l10n.t('Open Port'), stateFilter: 'running' });
+      if (!codespace) {
+        return;
+      }
+
+      try {
+        await codespaceManager.openPort(codespace);
+      } catch (error) {
+        const err = ensureError(error);
+        log(`Failed to open port of codespace ${codespace.name}`, err);
+        void vscode.window.showErrorMessage(vscode.l10n.t('Failed to load ports: {0}', err.message));
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.start', async (item?: CodespaceTreeItem, selected?: CodespaceTreeItem[]) => {
+      const selectedCodespaces = getSelectedCodespaces(selected);
+      if (selectedCodespaces) {
+        try {
+          await codespaceManager.startMany(selectedCodespaces);
+        } catch (error) {
+          const err = ensureError(error);
+          log(`Failed to start selected codespaces`, err);
+          void vscode.window.showErrorMessage(vscode.l10n.t('Failed to start codespaces: {0}', err.message));
+        } finally {
+          treeProvider.refresh();
+        }
+        return;
+      }
+
       const codespace = item?.codespace ?? await pickCodespace({ title: vscode.l10n.t('Start Codespace'), stateFilter: 'stopped' });
       if (!codespace) {
         return;
@@ -230,13 +442,27 @@ export function activate(context: vscode.ExtensionContext) {
       } catch (error) {
         const err = ensureError(error);
         log(`Failed to start codespace ${codespace.name}`, err);
-        void vscode.window.showErrorMessage(vscode.l10n.t('Failed to start codespace: {0}', err.message));
+        showCodespaceError(vscode.l10n.t('Failed to start codespace: {0}', err.message), err, codespace);
       }
     })
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand('openSpaces.stop', async (item?: CodespaceTreeItem) => {
+    vscode.commands.registerCommand('openSpaces.stop', async (item?: CodespaceTreeItem, selected?: CodespaceTreeItem[]) => {
+      const selectedCodespaces = getSelectedCodespaces(selected);
+      if (selectedCodespaces) {
+        try {
+          await codespaceManager.stopMany(selectedCodespaces);
+        } catch (error) {
+          const err = ensureError(error);
+          log(`Failed to stop selected codespaces`, err);
+          void vscode.window.showErrorMessage(vscode.l10n.t('Failed to stop codespaces: {0}', err.message));
+        } finally {
+          treeProvider.refresh();
+        }
+        return;
+      }
+
       const codespace = item?.codespace ?? await pickCodespace({ title: vscode.l10n.t('Stop Codespace'), stateFilter: 'running' });
       if (!codespace) {
         return;
@@ -248,8 +474,70 @@ export function activate(context: vscode.ExtensionContext) {
       } catch (error) {
         const err = ensureError(error);
         log(`Failed to stop codespace ${codespace.name}`, err);
-        void vscode.window.showErrorMessage(vscode.l10n.t('Failed to stop codespace: {0}', err.message));
+        showCodespaceError(vscode.l10n.t('Failed to stop codespace: {0}', err.message), err, codespace);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.rename', async (item?: CodespaceTreeItem) => {
+      const codespace = item?.codespace ?? await pickCodespace({ title: vscode.l10n.t('Rename Codespace') });
+      if (!codespace) {
+        return;
+      }
+
+      try {
+        const displayName = await codespaceManager.rename(codespace);
+        if (displayName) {
+          treeProvider.updateDisplayName(codespace.name, displayName);
+        }
+      } catch (error) {
+        const err = ensureError(error);
+        log(`Failed to rename codespace ${codespace.name}`, err);
+        void vscode.window.showErrorMessage(vscode.l10n.t('Failed to rename codespace: {0}', err.message));
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.changeMachineType', async (item?: CodespaceTreeItem) => {
+      const codespace = item?.codespace ?? await pickCodespace({ title: vscode.l10n.t('Change Machine Type') });
+      if (!codespace) {
+        return;
+      }
+
+      try {
+        await codespaceManager.changeMachineType(codespace);
+        treeProvider.refresh();
+      } catch (error) {
+        const err = ensureError(error);
+        log(`Failed to change machine type of codespace ${codespace.name}`, err);
+        showCodespaceError(vscode.l10n.t('Failed to change machine type: {0}', err.message), err, codespace);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.startKeepAlive', async (item?: CodespaceTreeItem) => {
+      const codespace = item?.codespace ?? await pickCodespace({ title: vscode.l10n.t('Start Keep Alive'), stateFilter: 'running' });
+      if (!codespace) {
+        return;
+      }
+
+      codespaceManager.startKeepAlive(codespace);
+      treeProvider.refresh();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.stopKeepAlive', async (item?: CodespaceTreeItem) => {
+      const codespace = item?.codespace ?? await pickCodespace({ title: vscode.l10n.t('Stop Keep Alive'), stateFilter: 'keepAlive' });
+      if (!codespace) {
+        return;
       }
+
+      codespaceManager.stopKeepAlive(codespace);
+      treeProvider.refresh();
     })
   );
 
@@ -329,13 +617,105 @@ export function activate(context: vscode.ExtensionContext) {
       } catch (error) {
         const err = ensureError(error);
         log(`Failed to open SSH terminal for codespace ${codespace.name}`, err);
-        void vscode.window.showErrorMessage(vscode.l10n.t('Failed to open SSH terminal: {0}', err.message));
+        showCodespaceError(vscode.l10n.t('Failed to open SSH terminal: {0}', err.message), err, codespace);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.viewLogs', async (item?: CodespaceTreeItem) => {
+      const codespace = item?.codespace ?? await pickCodespace({ title: vscode.l10n.t('View Codespace Logs') });
+      if (!codespace) {
+        return;
+      }
+
+      try {
+        await codespaceManager.viewLogs(codespace);
+      } catch (error) {
+        const err = ensureError(error);
+        log(`Failed to view logs for codespace ${codespace.name}`, err);
+        void vscode.window.showErrorMessage(vscode.l10n.t('Failed to view logs: {0}', err.message));
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.forwardPort', async (item?: PortTreeItem) => {
+      if (!item) {
+        return;
+      }
+
+      try {
+        await codespaceManager.forwardPort(item.codespace, item.port);
+        treeProvider.refresh();
+      } catch (error) {
+        const err = ensureError(error);
+        log(`Failed to forward port ${item.port.sourcePort} of codespace ${item.codespace.name}`, err);
+        void vscode.window.showErrorMessage(vscode.l10n.t('Failed to forward port: {0}', err.message));
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.stopForwardingPort', (item?: PortTreeItem) => {
+      if (!item) {
+        return;
+      }
+
+      codespaceManager.stopForwardingPort(item.codespace, item.port);
+      treeProvider.refresh();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.setPortVisibility', async (item?: PortTreeItem) => {
+      if (!item) {
+        return;
+      }
+
+      try {
+        await codespaceManager.setPortVisibility(item.codespace, item.port);
+        treeProvider.refresh();
+      } catch (error) {
+        const err = ensureError(error);
+        log(`Failed to change visibility of port ${item.port.sourcePort} of codespace ${item.codespace.name}`, err);
+        void vscode.window.showErrorMessage(vscode.l10n.t('Failed to change port visibility: {0}', err.message));
       }
     })
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand('openSpaces.rebuild', async (item?: CodespaceTreeItem) => {
+    vscode.commands.registerCommand('openSpaces.copyPortUrl', async (item?: PortTreeItem) => {
+      if (item) {
+        await codespaceManager.copyPortUrl(item.port);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.openPortUrl', async (item?: PortTreeItem) => {
+      if (item) {
+        await codespaceManager.openPortUrl(item.port);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.rebuild', async (item?: CodespaceTreeItem, selected?: CodespaceTreeItem[]) => {
+      const selectedCodespaces = getSelectedCodespaces(selected);
+      if (selectedCodespaces) {
+        try {
+          await codespaceManager.rebuildMany(selectedCodespaces, false);
+        } catch (error) {
+          const err = ensureError(error);
+          log(`Failed to rebuild selected codespaces`, err);
+          void vscode.window.showErrorMessage(vscode.l10n.t('Failed to rebuild codespaces: {0}', err.message));
+        } finally {
+          treeProvider.refresh();
+        }
+        return;
+      }
+
       const codespace = item?.codespace ?? await pickCodespace({ title: vscode.l10n.t('Rebuild Codespace') });
       if (!codespace) {
         return;
@@ -353,7 +733,21 @@ export function activate(context: vscode.ExtensionContext) {
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand('openSpaces.rebuildFull', async (item?: CodespaceTreeItem) => {
+    vscode.commands.registerCommand('openSpaces.rebuildFull', async (item?: CodespaceTreeItem, selected?: CodespaceTreeItem[]) => {
+      const selectedCodespaces = getSelectedCodespaces(selected);
+      if (selectedCodespaces) {
+        try {
+          await codespaceManager.rebuildMany(selectedCodespaces, true);
+        } catch (error) {
+          const err = ensureError(error);
+          log(`Failed to full rebuild selected codespaces`, err);
+          void vscode.window.showErrorMessage(vscode.l10n.t('Failed to rebuild codespaces: {0}', err.message));
+        } finally {
+          treeProvider.refresh();
+        }
+        return;
+      }
+
       const codespace = item?.codespace ?? await pickCodespace({ title: vscode.l10n.t('Full Rebuild Codespace') });
       if (!codespace) {
         return;
@@ -371,7 +765,21 @@ export function activate(context: vscode.ExtensionContext) {
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand('openSpaces.delete', async (item?: CodespaceTreeItem) => {
+    vscode.commands.registerCommand('openSpaces.delete', async (item?: CodespaceTreeItem, selected?: CodespaceTreeItem[]) => {
+      const selectedCodespaces = getSelectedCodespaces(selected);
+      if (selectedCodespaces) {
+        try {
+          await codespaceManager.deleteMany(selectedCodespaces);
+        } catch (error) {
+          const err = ensureError(error);
+          log(`Failed to delete selected codespaces`, err);
+          void vscode.window.showErrorMessage(vscode.l10n.t('Failed to delete codespaces: {0}', err.message));
+        } finally {
+          treeProvider.refresh();
+        }
+        return;
+      }
+
       const codespace = item?.codespace ?? await pickCodespace({ title: vscode.l10n.t('Delete Codespace') });
       if (!codespace) {
         return;
@@ -390,7 +798,7 @@ export function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(
     vscode.commands.registerCommand('openSpaces.disconnect', async () => {
-      const codespaceName = getConnectedCodespaceName(context);
+      const codespaceName = getConnectedCodespaceName();
       const message = codespaceName
         ? vscode.l10n.t('Disconnect from codespace {0}?', codespaceName)
         : vscode.l10n.t('Disconnect from remote?');
@@ -402,7 +810,7 @@ export function activate(context: vscode.ExtensionContext) {
       );
 
       if (confirmed === vscode.l10n.t('Disconnect')) {
-        await context.globalState.update('connectedCodespaceName', undefined);
+        // Stopping the codespace on disconnect is scheduled when this window deactivates
         await vscode.commands.executeCommand('workbench.action.remote.close');
       }
     })
@@ -411,7 +819,7 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.commands.registerCommand('openSpaces.create', async () => {
       try {
-        const codespaceName = await codespaceManager.createCodespace();
+        const codespaceName = await codespaceManager.createCodespace(context.globalState);
         if (codespaceName) {
           treeProvider.refresh();
         }
@@ -423,13 +831,102 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.createForPullRequest', async (item?: RepositoryTreeItem) => {
+      try {
+        const codespaceName = await codespaceManager.createCodespaceForPullRequest(
+          context.globalState,
+          item?.repository || undefined
+        );
+        if (codespaceName) {
+          treeProvider.refresh();
+        }
+      } catch (error) {
+        const err = ensureError(error);
+        log('Failed to create codespace for pull request', err);
+        void vscode.window.showErrorMessage(vscode.l10n.t('Failed to create codespace: {0}', err.message));
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.createFromTemplate', async () => {
+      try {
+        const codespaceName = await codespaceManager.createCodespaceFromTemplate(context.globalState);
+        if (codespaceName) {
+          treeProvider.refresh();
+        }
+      } catch (error) {
+        const err = ensureError(error);
+        log('Failed to create codespace from template', err);
+        void vscode.window.showErrorMessage(vscode.l10n.t('Failed to create codespace: {0}', err.message));
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.publish', async (item?: CodespaceTreeItem) => {
+      const codespace = item?.codespace ?? await pickCodespace({ title: vscode.l10n.t('Publish to Repository') });
+      if (!codespace) {
+        return;
+      }
+
+      try {
+        const repository = await codespaceManager.publish(codespace);
+        if (repository) {
+          treeProvider.refresh();
+        }
+      } catch (error) {
+        const err = ensureError(error);
+        log(`Failed to publish codespace ${codespace.name}`, err);
+        void vscode.window.showErrorMessage(vscode.l10n.t('Failed to publish codespace: {0}', err.message));
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.exportChanges', async (item?: CodespaceTreeItem) => {
+      const codespace = item?.codespace ?? await pickCodespace({ title: vscode.l10n.t('Export Changes to Branch') });
+      if (!codespace) {
+        return;
+      }
+
+      try {
+        await codespaceManager.exportChanges(codespace);
+      } catch (error) {
+        const err = ensureError(error);
+        log(`Failed to export changes from codespace ${codespace.name}`, err);
+        void vscode.window.showErrorMessage(vscode.l10n.t('Failed to export changes: {0}', err.message));
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openSpaces.cleanUp', async () => {
+      try {
+        const result = await codespaceManager.cleanUpCodespaces();
+        if (result) {
+          treeProvider.refresh();
+        }
+      } catch (error) {
+        const err = ensureError(error);
+        log('Failed to clean up codespaces', err);
+        void vscode.window.showErrorMessage(vscode.l10n.t('Failed to clean up codespaces: {0}', err.message));
+      }
+    })
+  );
+
   // Initial load
   void treeProvider.loadCodespaces();
 }
 
-export function deactivate() {
+export async function deactivate(): Promise<void> {
   stopAuthPolling();
+  portForwarding.stopAll();
+  keepAlive.stopAll();
   if (treeProvider) {
     treeProvider.dispose();
   }
+  await autoStop.dispose();
+  await autoStop.scheduleStopOnExit(getConnectedCodespaceName());
 }
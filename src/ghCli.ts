@@ -1,7 +1,16 @@
-import { execFile } from 'child_process';
+import { ChildProcess, execFile, spawn } from 'child_process';
 import { promisify } from 'util';
 import * as vscode from 'vscode';
-import { Codespace, CodespaceState, GhCliError, GitStatus, MachineInfo } from './types';
+import {
+  Codespace,
+  CodespaceState,
+  ForwardedPort,
+  GhCliError,
+  GitStatus,
+  MachineInfo,
+  PortVisibility,
+} from './types';
+import { isValidCodespaceName } from './constants';
 
 const execFileAsync = promisify(execFile);
 
@@ -28,68 +37,104 @@ function validateCodespaceName(name: string): void {
   if (!name || typeof name !== 'string') {
     throw new GhCliError('COMMAND_FAILED', vscode.l10n.t('Invalid codespace name'));
   }
-  // Codespace names should be alphanumeric with hyphens
-  if (!/^[a-zA-Z0-9][-a-zA-Z0-9]*$/.test(name)) {
+  if (!isValidCodespaceName(name)) {
     throw new GhCliError('COMMAND_FAILED', vscode.l10n.t('Invalid codespace name format: {0}', name));
   }
 }
 
+/**
+ * Validates that a port number is within the valid TCP range.
+ * @param port - The port number to validate
+ * @throws {GhCliError} If the port is invalid
+ */
+function validatePort(port: number): void {
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new GhCliError('COMMAND_FAILED', vscode.l10n.t('Invalid port number: {0}', port));
+  }
+}
+
+/**
+ * A codespace as returned by the REST API (`gh api /user/codespaces`).
+ * `gh codespace list --json` has no field telling unpublished codespaces apart.
+ */
 interface CodespaceResponse {
   name: string;
-  displayName?: string;
+  display_name?: string | null;
   state: string;
-  repository?: string;
+  repository?: { full_name?: string } | null;
   owner?: { login?: string };
-  gitStatus?: {
+  git_status?: {
     ref?: string;
     ahead?: number;
     behind?: number;
-    hasUncommittedChanges?: boolean;
-    hasUnpushedChanges?: boolean;
+    has_uncommitted_changes?: boolean;
+    has_unpushed_changes?: boolean;
   };
-  lastUsedAt?: string;
-  createdAt?: string;
-  machineName?: string;
+  last_used_at?: string;
+  created_at?: string;
+  idle_timeout_minutes?: number | null;
+  location?: string;
+  devcontainer_path?: string | null;
+  machine?: {
+    name?: string;
+    display_name?: string;
+    cpus?: number;
+    memory_in_bytes?: number;
+    storage_in_bytes?: number;
+  } | null;
+  /** Only set while the codespace can be published to a new repository */
+  publish_url?: string | null;
 }
 
-function isCodespaceResponse(data: unknown): data is CodespaceResponse[] {
+function isCodespaceResponse(data: unknown): data is CodespaceResponse {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+  const obj = data as Record<string, unknown>;
   return (
-    Array.isArray(data) &&
-    data.every((item): item is CodespaceResponse => {
-      if (typeof item !== 'object' || item === null) {
-        return false;
-      }
-      const obj = item as Record<string, unknown>;
-      return (
-        'name' in obj &&
-        typeof obj.name === 'string' &&
-        'state' in obj &&
-        typeof obj.state === 'string'
-      );
-    })
+    'name' in obj &&
+    typeof obj.name === 'string' &&
+    'state' in obj &&
+    typeof obj.state === 'string'
   );
 }
 
 function parseCodespaceResponse(cs: CodespaceResponse): Codespace {
-  const gitStatusRaw = cs.gitStatus;
+  const gitStatusRaw = cs.git_status;
   const gitStatus: GitStatus = {
     ref: gitStatusRaw?.ref || '',
     ahead: gitStatusRaw?.ahead || 0,
     behind: gitStatusRaw?.behind || 0,
-    hasUncommittedChanges: gitStatusRaw?.hasUncommittedChanges || false,
-    hasUnpushedChanges: gitStatusRaw?.hasUnpushedChanges || false,
+    hasUncommittedChanges: gitStatusRaw?.has_uncommitted_changes || false,
+    hasUnpushedChanges: gitStatusRaw?.has_unpushed_changes || false,
   };
+  const machine = cs.machine;
+  const machineInfo: MachineInfo | undefined =
+    machine && typeof machine.cpus === 'number'
+      ? {
+          cpus: machine.cpus,
+          memoryInBytes: machine.memory_in_bytes || 0,
+          storageInBytes: machine.storage_in_bytes || 0,
+          displayName: machine.display_name || machine.name || '',
+        }
+      : undefined;
   return {
     name: cs.name,
-    displayName: cs.displayName || cs.name,
+    displayName: cs.display_name || cs.name,
     state: cs.state as CodespaceState,
-    repository: cs.repository || '',
+    repository: cs.repository?.full_name || '',
+    // Codespaces created from a template are not tied to a repository until published
+    unpublished: !!cs.publish_url,
     owner: cs.owner?.login || '',
     branch: gitStatus.ref,
-    lastUsedAt: cs.lastUsedAt || '',
-    createdAt: cs.createdAt || '',
-    machineName: cs.machineName || '',
+    lastUsedAt: cs.last_used_at || '',
+    createdAt: cs.created_at || '',
+    machineName: machine?.name || '',
     gitStatus,
+    idleTimeoutMinutes: cs.idle_timeout_minutes ?? undefined,
+    machineInfo,
+    location: cs.location || undefined,
+    devcontainerPath: cs.devcontainer_path || undefined,
   };
 }
 
@@ -195,21 +240,20 @@ export async function checkAuth(): Promise<{
 }
 
 /**
- * Lists all codespaces for the authenticated user.
+ * Lists all codespaces for the authenticated user, following all result pages.
  * @returns Array of Codespace objects
  * @throws {GhCliError} If gh CLI is not installed or user not authenticated
  */
 export async function listCodespaces(): Promise<Codespace[]> {
-  const result = await runGh([
-    'codespace',
-    'list',
-    '--json',
-    'name,displayName,state,repository,owner,gitStatus,lastUsedAt,createdAt,machineName',
-  ]);
+  // One compact JSON object per line, whatever the number of pages
+  const result = await runGh(['api', '/user/codespaces', '--paginate', '--jq', '.codespaces[] | @json']);
 
   try {
-    const data: unknown = JSON.parse(result.stdout);
-    if (!isCodespaceResponse(data)) {
+    const data: unknown[] = result.stdout
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as unknown);
+    if (!data.every(isCodespaceResponse)) {
       throw new GhCliError('PARSE_ERROR', vscode.l10n.t('Invalid codespace list response structure'));
     }
     return data.map(parseCodespaceResponse);
@@ -273,6 +317,21 @@ export async function waitForSshReady(
   );
 }
 
+/**
+ * Runs a command in a codespace over SSH.
+ * The command is interpreted by the codespace's login shell.
+ * @param codespaceName - The name of the codespace
+ * @param command - The shell command to run
+ * @param timeout - Timeout in milliseconds (default: 120000)
+ * @returns The command's standard output
+ * @throws {GhCliError} If the codespace name is invalid or command fails
+ */
+export async function runSshCommand(codespaceName: string, command: string, timeout = 120000): Promise<string> {
+  validateCodespaceName(codespaceName);
+  const result = await runGh(['codespace', 'ssh', '-c', codespaceName, '--', command], timeout);
+  return result.stdout;
+}
+
 /**
  * Ensures SSH keys are generated for connecting to a codespace.
  * @param codespaceName - The name of the codespace
@@ -343,12 +402,15 @@ export async function rebuildCodespace(codespaceName: string, full = false): Pro
  */
 export async function getCodespace(codespaceName: string): Promise<Codespace | null> {
   validateCodespaceName(codespaceName);
-  const result = await runGh([
-    'codespace',
-    'list',
-    '--json',
-    'name,displayName,state,repository,owner,gitStatus,lastUsedAt,createdAt,machineName',
-  ]);
+  let result: ExecResult;
+  try {
+    result = await runGh(['api', `/user/codespaces/${codespaceName}`]);
+  } catch (error) {
+    if (isExecError(error) && error.stderr?.includes('HTTP 404')) {
+      return null;
+    }
+    throw error;
+  }
 
   let data: unknown;
   try {
@@ -361,8 +423,7 @@ export async function getCodespace(codespaceName: string): Promise<Codespace | n
     throw new GhCliError('PARSE_ERROR', vscode.l10n.t('Invalid codespace response structure'));
   }
 
-  const cs = data.find((c) => c.name === codespaceName);
-  return cs ? parseCodespaceResponse(cs) : null;
+  return parseCodespaceResponse(data);
 }
 
 /**
@@ -375,84 +436,82 @@ export async function deleteCodespace(codespaceName: string): Promise<void> {
   await runGh(['api', '-X', 'DELETE', `/user/codespaces/${codespaceName}`], 60000);
 }
 
-interface CodespaceViewResponse {
-  idleTimeoutMinutes?: number;
-  lastUsedAt?: string;
-  machine?: {
-    name?: string;
-    displayName?: string;
-    cpus?: number;
-    memoryInBytes?: number;
-    storageInBytes?: number;
-  };
+/**
+ * Gets the creation and devcontainer logs of a codespace.
+ * @param codespaceName - The name of the codespace
+ * @returns The log output
+ * @throws {GhCliError} If the codespace name is invalid or command fails
+ */
+export async function getCodespaceLogs(codespaceName: string): Promise<string> {
+  validateCodespaceName(codespaceName);
+  const result = await runGh(['codespace', 'logs', '-c', codespaceName], 120000);
+  return result.stdout;
 }
 
 /**
- * Gets the idle timeout information for a codespace.
+ * Changes the display name of a codespace.
  * @param codespaceName - The name of the codespace
- * @returns Object with idleTimeoutMinutes and optionally lastUsedAt, or null if not available
+ * @param displayName - The new display name
+ * @throws {GhCliError} If the codespace name is invalid or command fails
  */
-export async function getCodespaceIdleTimeout(
-  codespaceName: string
-): Promise<{ idleTimeoutMinutes: number; lastUsedAt?: string } | null> {
+export async function renameCodespace(codespaceName: string, displayName: string): Promise<void> {
   validateCodespaceName(codespaceName);
-  try {
-    const result = await runGh(
-      ['codespace', 'view', '-c', codespaceName, '--json', 'idleTimeoutMinutes,lastUsedAt'],
-      30000
-    );
-
-    const data: unknown = JSON.parse(result.stdout);
-    if (typeof data !== 'object' || data === null) {
-      return null;
-    }
+  await runGh(
+    ['api', '-X', 'PATCH', `/user/codespaces/${codespaceName}`, '-f', `display_name=${displayName}`],
+    60000
+  );
+}
 
-    const response = data as CodespaceViewResponse;
-    if (typeof response.idleTimeoutMinutes !== 'number') {
-      return null;
-    }
+/**
+ * Publishes an unpublished codespace to a new repository.
+ * @param codespaceName - The name of the codespace
+ * @param repositoryName - The name of the repository to create
+ * @param isPrivate - Whether the new repository should be private
+ * @returns The new repository in owner/name format
+ * @throws {GhCliError} If the codespace name is invalid or command fails
+ */
+export async function publishCodespace(
+  codespaceName: string,
+  repositoryName: string,
+  isPrivate: boolean
+): Promise<string> {
+  validateCodespaceName(codespaceName);
+  const result = await runGh(
+    [
+      'api',
+      '-X',
+      'POST',
+      `/user/codespaces/${codespaceName}/publish`,
+      '-f',
+      `name=${repositoryName}`,
+      '-F',
+      `private=${isPrivate}`,
+      '-q',
+      '.repository.full_name',
+    ],
+    120000
+  );
 
-    return {
-      idleTimeoutMinutes: response.idleTimeoutMinutes,
-      lastUsedAt: response.lastUsedAt || undefined,
-    };
-  } catch {
-    return null;
+  const repository = result.stdout.trim();
+  if (!repository) {
+    throw new GhCliError('PARSE_ERROR', vscode.l10n.t('No repository in publish response'));
   }
+  return repository;
 }
 
 /**
- * Gets the machine info for a codespace.
+ * Changes the machine type of a codespace.
+ * A running codespace picks up the new machine type the next time it starts.
  * @param codespaceName - The name of the codespace
- * @returns MachineInfo object or null if not available
+ * @param machineType - The name of the new machine type
+ * @throws {GhCliError} If the codespace name is invalid or command fails
  */
-export async function getCodespaceMachineInfo(codespaceName: string): Promise<MachineInfo | null> {
+export async function changeMachineType(codespaceName: string, machineType: string): Promise<void> {
   validateCodespaceName(codespaceName);
-  try {
-    const result = await runGh(
-      ['codespace', 'view', '-c', codespaceName, '--json', 'machine'],
-      30000
-    );
-
-    const data: unknown = JSON.parse(result.stdout);
-    if (typeof data !== 'object' || data === null) {
-      return null;
-    }
-
-    const response = data as CodespaceViewResponse;
-    if (!response.machine || typeof response.machine.cpus !== 'number') {
-      return null;
-    }
-
-    return {
-      cpus: response.machine.cpus,
-      memoryInBytes: response.machine.memoryInBytes || 0,
-      storageInBytes: response.machine.storageInBytes || 0,
-      displayName: response.machine.displayName || response.machine.name || '',
-    };
-  } catch {
-    return null;
-  }
+  await runGh(
+    ['api', '-X', 'PATCH', `/user/codespaces/${codespaceName}`, '-f', `machine=${machineType}`],
+    60000
+  );
 }
 
 /**
@@ -491,7 +550,7 @@ export async function waitForState(
     }
 
     if (codespace.state === 'Failed') {
-      throw new GhCliError('COMMAND_FAILED', vscode.l10n.t('Codespace {0} is in failed state', codespaceName));
+      throw new GhCliError('CODESPACE_FAILED', vscode.l10n.t('Codespace {0} is in failed state', codespaceName));
     }
 
     await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
@@ -503,6 +562,108 @@ export async function waitForState(
   );
 }
 
+export interface CodespaceExport {
+  id: string;
+  state: string;
+  branch: string;
+  sha?: string;
+  htmlUrl?: string;
+}
+
+interface CodespaceExportResponse {
+  id?: string | number;
+  state?: string;
+  branch?: string | null;
+  sha?: string | null;
+  html_url?: string | null;
+}
+
+function parseCodespaceExportResponse(stdout: string): CodespaceExport {
+  let data: unknown;
+  try {
+    data = JSON.parse(stdout);
+  } catch {
+    throw new GhCliError('PARSE_ERROR', vscode.l10n.t('Failed to parse export response'));
+  }
+  if (typeof data !== 'object' || data === null || !('id' in data)) {
+    throw new GhCliError('PARSE_ERROR', vscode.l10n.t('Invalid export response structure'));
+  }
+  const response = data as CodespaceExportResponse;
+  return {
+    id: String(response.id),
+    state: response.state || '',
+    branch: response.branch || '',
+    sha: response.sha || undefined,
+    htmlUrl: response.html_url || undefined,
+  };
+}
+
+/**
+ * Starts exporting the changes of a codespace to a branch.
+ * Changes are pushed to a fork if the user cannot push to the repository.
+ * @param codespaceName - The name of the codespace
+ * @returns The export that was started
+ * @throws {GhCliError} If the codespace name is invalid or command fails
+ */
+export async function exportCodespace(codespaceName: string): Promise<CodespaceExport> {
+  validateCodespaceName(codespaceName);
+  const result = await runGh(['api', '-X', 'POST', `/user/codespaces/${codespaceName}/exports`], 60000);
+  return parseCodespaceExportResponse(result.stdout);
+}
+
+/**
+ * Gets the status of a codespace export.
+ * @param codespaceName - The name of the codespace
+ * @param exportId - The export ID, or 'latest'
+ * @returns The export details
+ * @throws {GhCliError} If the codespace name is invalid or command fails
+ */
+export async function getCodespaceExport(codespaceName: string, exportId: string): Promise<CodespaceExport> {
+  validateCodespaceName(codespaceName);
+  const result = await runGh(
+    ['api', `/user/codespaces/${codespaceName}/exports/${encodeURIComponent(exportId)}`],
+    30000
+  );
+  return parseCodespaceExportResponse(result.stdout);
+}
+
+/**
+ * Waits for a codespace export to finish.
+ * @param codespaceName - The name of the codespace
+ * @param exportId - The export ID
+ * @param timeoutMs - Maximum time to wait in milliseconds (default: 300000)
+ * @param pollIntervalMs - Interval between status checks in milliseconds (default: 3000)
+ * @returns The export details once it has succeeded
+ * @throws {GhCliError} If the export fails or times out
+ */
+export async function waitForExport(
+  codespaceName: string,
+  exportId: string,
+  timeoutMs = 300000,
+  pollIntervalMs = 3000
+): Promise<CodespaceExport> {
+  const startTime = Date.now();
+
+  while (Date.now() - startTime < timeoutMs) {
+    const codespaceExport = await getCodespaceExport(codespaceName, exportId);
+
+    if (codespaceExport.state === 'succeeded') {
+      return codespaceExport;
+    }
+
+    if (codespaceExport.state === 'failed') {
+      throw new GhCliError('COMMAND_FAILED', vscode.l10n.t('Export of codespace {0} failed', codespaceName));
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+  }
+
+  throw new GhCliError(
+    'COMMAND_FAILED',
+    vscode.l10n.t('Timeout waiting for export of codespace {0}', codespaceName)
+  );
+}
+
 export interface Repository {
   nameWithOwner: string;
   description: string;
@@ -598,12 +759,70 @@ export async function listBranches(repo: string): Promise<Branch[]> {
   }
 }
 
+export interface DevcontainerConfig {
+  path: string;
+  name: string;
+}
+
+interface DevcontainerResponse {
+  path?: string;
+  name?: string;
+  display_name?: string;
+}
+
+interface DevcontainersApiResponse {
+  devcontainers?: DevcontainerResponse[];
+}
+
+function isDevcontainersApiResponse(data: unknown): data is DevcontainersApiResponse {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+  const obj = data as Record<string, unknown>;
+  return 'devcontainers' in obj && Array.isArray(obj.devcontainers);
+}
+
+/**
+ * Lists the devcontainer configurations available in a repository.
+ * @param repo - The repository in owner/name format
+ * @param branch - Optional branch name
+ * @returns Array of DevcontainerConfig objects
+ */
+export async function listDevcontainers(repo: string, branch?: string): Promise<DevcontainerConfig[]> {
+  const endpoint = branch
+    ? `repos/${repo}/codespaces/devcontainers?ref=${encodeURIComponent(branch)}`
+    : `repos/${repo}/codespaces/devcontainers`;
+
+  const result = await runGh(['api', endpoint], 60000);
+
+  try {
+    const data: unknown = JSON.parse(result.stdout);
+    if (!isDevcontainersApiResponse(data)) {
+      throw new GhCliError('PARSE_ERROR', vscode.l10n.t('Invalid devcontainer list response structure'));
+    }
+    return (data.devcontainers || [])
+      .filter((devcontainer) => !!devcontainer.path)
+      .map((devcontainer) => ({
+        path: devcontainer.path || '',
+        name: devcontainer.display_name || devcontainer.name || '',
+      }));
+  } catch (error) {
+    if (error instanceof GhCliError) {
+      throw error;
+    }
+    throw new GhCliError('PARSE_ERROR', vscode.l10n.t('Failed to parse devcontainer list output'));
+  }
+}
+
+export type PrebuildAvailability = 'ready' | 'in_progress' | null;
+
 export interface MachineType {
   name: string;
   displayName: string;
   cpus: number;
   memoryInBytes: number;
   storageInBytes: number;
+  prebuildAvailability: PrebuildAvailability;
 }
 
 interface MachineTypeResponse {
@@ -612,6 +831,11 @@ interface MachineTypeResponse {
   cpus?: number;
   memory_in_bytes?: number;
   storage_in_bytes?: number;
+  prebuild_availability?: string | null;
+}
+
+function parsePrebuildAvailability(value?: string | null): PrebuildAvailability {
+  return value === 'ready' || value === 'in_progress' ? value : null;
 }
 
 interface MachinesApiResponse {
@@ -653,6 +877,7 @@ export async function listMachineTypes(repo: string, branch?: string): Promise<M
       cpus: machine.cpus || 0,
       memoryInBytes: machine.memory_in_bytes || 0,
       storageInBytes: machine.storage_in_bytes || 0,
+      prebuildAvailability: parsePrebuildAvailability(machine.prebuild_availability),
     }));
   } catch (error) {
     if (error instanceof GhCliError) {
@@ -668,6 +893,9 @@ export interface CreateCodespaceOptions {
   machineType?: string;
   location?: string;
   displayName?: string;
+  idleTimeoutMinutes?: number;
+  retentionPeriodMinutes?: number;
+  devcontainerPath?: string;
 }
 
 /**
@@ -690,6 +918,15 @@ export async function createCodespace(options: CreateCodespaceOptions): Promise<
   if (options.displayName) {
     args.push('--display-name', options.displayName);
   }
+  if (options.idleTimeoutMinutes) {
+    args.push('--idle-timeout', `${options.idleTimeoutMinutes}m`);
+  }
+  if (options.retentionPeriodMinutes) {
+    args.push('--retention-period', `${options.retentionPeriodMinutes}m`);
+  }
+  if (options.devcontainerPath) {
+    args.push('--devcontainer-path', options.devcontainerPath);
+  }
 
   // Creating a codespace can take a while
   const result = await runGh(args, 300000);
@@ -701,3 +938,232 @@ export async function createCodespace(options: CreateCodespaceOptions): Promise<
   }
   return codespaceName;
 }
+
+interface PortResponse {
+  sourcePort?: number;
+  label?: string;
+  visibility?: string;
+  browseUrl?: string;
+}
+
+function isPortResponse(data: unknown): data is PortResponse[] {
+  return (
+    Array.isArray(data) &&
+    data.every((item): item is PortResponse => {
+      if (typeof item !== 'object' || item === null) {
+        return false;
+      }
+      const obj = item as Record<string, unknown>;
+      return 'sourcePort' in obj && typeof obj.sourcePort === 'number';
+    })
+  );
+}
+
+function parsePortVisibility(visibility?: string): PortVisibility {
+  switch (visibility?.toLowerCase()) {
+    case 'public':
+      return 'public';
+    case 'org':
+    case 'organization':
+      return 'org';
+    default:
+      return 'private';
+  }
+}
+
+/**
+ * Lists the forwarded ports of a running codespace.
+ * @param codespaceName - The name of the codespace
+ * @returns Array of ForwardedPort objects sorted by port number
+ * @throws {GhCliError} If the codespace name is invalid or the output cannot be parsed
+ */
+export async function listPorts(codespaceName: string): Promise<ForwardedPort[]> {
+  validateCodespaceName(codespaceName);
+  const result = await runGh(
+    ['codespace', 'ports', '-c', codespaceName, '--json', 'sourcePort,label,visibility,browseUrl'],
+    60000
+  );
+
+  try {
+    const data: unknown = JSON.parse(result.stdout);
+    if (!isPortResponse(data)) {
+      throw new GhCliError('PARSE_ERROR', vscode.l10n.t('Invalid port list response structure'));
+    }
+    return data
+      .map((port) => ({
+        sourcePort: port.sourcePort || 0,
+        label: port.label || '',
+        visibility: parsePortVisibility(port.visibility),
+        browseUrl: port.browseUrl || '',
+      }))
+      .sort((a, b) => a.sourcePort - b.sourcePort);
+  } catch (error) {
+    if (error instanceof GhCliError) {
+      throw error;
+    }
+    throw new GhCliError('PARSE_ERROR', vscode.l10n.t('Failed to parse port list output'));
+  }
+}
+
+/**
+ * Changes the visibility of a codespace port.
+ * @param codespaceName - The name of the codespace
+ * @param port - The port number in the codespace
+ * @param visibility - The new visibility
+ * @throws {GhCliError} If the codespace name or port is invalid or command fails
+ */
+export async function setPortVisibility(
+  codespaceName: string,
+  port: number,
+  visibility: PortVisibility
+): Promise<void> {
+  validateCodespaceName(codespaceName);
+  validatePort(port);
+  await runGh(
+    ['codespace', 'ports', 'visibility', `${port}:${visibility}`, '-c', codespaceName],
+    60000
+  );
+}
+
+/**
+ * Starts forwarding a codespace port to a local port.
+ * The returned process keeps the tunnel open until it exits or is killed.
+ * @param codespaceName - The name of the codespace
+ * @param remotePort - The port number in the codespace
+ * @param localPort - The local port to listen on
+ * @returns The running gh process
+ * @throws {GhCliError} If the codespace name or ports are invalid
+ */
+export function forwardPort(
+  codespaceName: string,
+  remotePort: number,
+  localPort: number
+): ChildProcess {
+  validateCodespaceName(codespaceName);
+  validatePort(remotePort);
+  validatePort(localPort);
+  return spawn(
+    'gh',
+    ['codespace', 'ports', 'forward', `${remotePort}:${localPort}`, '-c', codespaceName],
+    { stdio: ['ignore', 'ignore', 'pipe'] }
+  );
+}
+
+export interface PullRequest {
+  number: number;
+  title: string;
+  headRefName: string;
+  author: string;
+  isCrossRepository: boolean;
+}
+
+interface PullRequestResponse {
+  number?: number;
+  title?: string;
+  headRefName?: string;
+  author?: { login?: string };
+  isCrossRepository?: boolean;
+}
+
+function isPullRequestResponse(data: unknown): data is PullRequestResponse[] {
+  return (
+    Array.isArray(data) &&
+    data.every((item): item is PullRequestResponse => {
+      if (typeof item !== 'object' || item === null) {
+        return false;
+      }
+      const obj = item as Record<string, unknown>;
+      return 'number' in obj && typeof obj.number === 'number';
+    })
+  );
+}
+
+/**
+ * Lists open pull requests for a repository.
+ * @param repo - The repository in owner/name format
+ * @returns Array of PullRequest objects, most recent first
+ */
+export async function listPullRequests(repo: string): Promise<PullRequest[]> {
+  const result = await runGh(
+    [
+      'pr',
+      'list',
+      '--repo',
+      repo,
+      '--state',
+      'open',
+      '--limit',
+      '100',
+      '--json',
+      'number,title,headRefName,author,isCrossRepository',
+    ],
+    60000
+  );
+
+  try {
+    const data: unknown = JSON.parse(result.stdout);
+    if (!isPullRequestResponse(data)) {
+      throw new GhCliError('PARSE_ERROR', vscode.l10n.t('Invalid pull request list response structure'));
+    }
+    return data.map((pr) => ({
+      number: pr.number || 0,
+      title: pr.title || '',
+      headRefName: pr.headRefName || '',
+      author: pr.author?.login || '',
+      isCrossRepository: pr.isCrossRepository || false,
+    }));
+  } catch (error) {
+    if (error instanceof GhCliError) {
+      throw error;
+    }
+    throw new GhCliError('PARSE_ERROR', vscode.l10n.t('Failed to parse pull request list output'));
+  }
+}
+
+export interface CreatePullRequestCodespaceOptions {
+  repo: string;
+  pullNumber: number;
+  machineType?: string;
+  location?: string;
+  displayName?: string;
+  idleTimeoutMinutes?: number;
+  retentionPeriodMinutes?: number;
+}
+
+/**
+ * Creates a new codespace on the head branch of a pull request.
+ * Uses the pull request endpoint so pull requests from forks are supported.
+ * @param options - Options for creating the codespace
+ * @returns The name of the created codespace
+ */
+export async function createCodespaceForPullRequest(
+  options: CreatePullRequestCodespaceOptions
+): Promise<string> {
+  const args = ['api', '-X', 'POST', `repos/${options.repo}/pulls/${options.pullNumber}/codespaces`];
+
+  if (options.machineType) {
+    args.push('-f', `machine=${options.machineType}`);
+  }
+  if (options.location) {
+    args.push('-f', `location=${options.location}`);
+  }
+  if (options.displayName) {
+    args.push('-f', `display_name=${options.displayName}`);
+  }
+  if (options.idleTimeoutMinutes) {
+    args.push('-F', `idle_timeout_minutes=${options.idleTimeoutMinutes}`);
+  }
+  if (options.retentionPeriodMinutes) {
+    args.push('-F', `retention_period_minutes=${options.retentionPeriodMinutes}`);
+  }
+  args.push('-q', '.name');
+
+  // Creating a codespace can take a while
+  const result = await runGh(args, 300000);
+
+  const codespaceName = result.stdout.trim();
+  if (!codespaceName) {
+    throw new GhCliError('PARSE_ERROR', vscode.l10n.t('No codespace name in response'));
+  }
+  return codespaceName;
+}
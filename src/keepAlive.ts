@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import * as ghCli from './ghCli';
+import { ensureError } from './utils/errors';
+import { log } from './extension';
+
+interface KeepAliveSession {
+  expiresAt: Date;
+  pingTimer: NodeJS.Timeout;
+  expiryTimer: NodeJS.Timeout;
+}
+
+// Activity must be generated more often than the shortest idle timeout (5 minutes)
+const PING_INTERVAL_MS = 4 * 60 * 1000;
+
+// Sessions outlive the window, e.g. the reload when connecting to a codespace
+const KEEP_ALIVE_KEY = 'keepAliveSessions';
+
+const sessions = new Map<string, KeepAliveSession>();
+let globalState: vscode.Memento | undefined;
+
+/** Ends of the persisted sessions (ISO dates), by codespace name */
+function getPersisted(): Record<string, string> {
+  return globalState?.get<Record<string, string>>(KEEP_ALIVE_KEY) ?? {};
+}
+
+function persist(update: (persisted: Record<string, string>) => void): void {
+  if (!globalState) {
+    return;
+  }
+  const persisted = { ...getPersisted() };
+  update(persisted);
+  globalState.update(KEEP_ALIVE_KEY, persisted).then(undefined, (err: unknown) => {
+    log('Failed to save keep alive sessions', ensureError(err));
+  });
+}
+
+function triggerRefresh(): void {
+  void vscode.commands.executeCommand('openSpaces.refresh');
+}
+
+async function ping(codespaceName: string): Promise<void> {
+  // Stopped from another window
+  if (globalState && !getPersisted()[codespaceName]) {
+    if (clearSession(codespaceName)) {
+      triggerRefresh();
+    }
+    return;
+  }
+  try {
+    await ghCli.runSshCommand(codespaceName, 'true', 60000);
+  } catch (err) {
+    log(`Keep alive ping for codespace ${codespaceName} failed`, ensureError(err));
+    // Stop once the codespace is no longer running (e.g. stopped by the user)
+    const codespace = await ghCli.getCodespace(codespaceName).catch(() => null);
+    if (codespace?.state !== 'Available' && stop(codespaceName)) {
+      triggerRefresh();
+    }
+  }
+}
+
+function clearSession(codespaceName: string): boolean {
+  const session = sessions.get(codespaceName);
+  if (!session) {
+    return false;
+  }
+  clearInterval(session.pingTimer);
+  clearTimeout(session.expiryTimer);
+  sessions.delete(codespaceName);
+  return true;
+}
+
+function startSession(codespaceName: string, expiresAt: Date): void {
+  const session: KeepAliveSession = {
+    expiresAt,
+    pingTimer: setInterval(() => void ping(codespaceName), PING_INTERVAL_MS),
+    expiryTimer: setTimeout(() => {
+      if (sessions.get(codespaceName) === session) {
+        stop(codespaceName);
+        log(`Keep alive for codespace ${codespaceName} expired`);
+        triggerRefresh();
+      }
+    }, expiresAt.getTime() - Date.now()),
+  };
+  sessions.set(codespaceName, session);
+  void ping(codespaceName);
+}
+
+/**
+ * Restores the keep alive sessions that have not ended yet.
+ * @param state - The global state the sessions are persisted in
+ */
+export function initialize(state: vscode.Memento): void {
+  globalState = state;
+  const expired: string[] = [];
+  for (const [codespaceName, expiresAt] of Object.entries(getPersisted())) {
+    const end = new Date(expiresAt);
+    if (end.getTime() > Date.now()) {
+      startSession(codespaceName, end);
+    } else {
+      expired.push(codespaceName);
+    }
+  }
+  if (expired.length > 0) {
+    persist((persisted) => expired.forEach((codespaceName) => delete persisted[codespaceName]));
+  }
+}
+
+/**
+ * Returns when keep alive ends for a codespace, if it is active.
+ * @param codespaceName - The name of the codespace
+ */
+export function getExpiresAt(codespaceName: string): Date | undefined {
+  return sessions.get(codespaceName)?.expiresAt;
+}
+
+/**
+ * Checks whether keep alive is active for a codespace.
+ * @param codespaceName - The name of the codespace
+ */
+export function isActive(codespaceName: string): boolean {
+  return sessions.has(codespaceName);
+}
+
+/**
+ * Keeps a codespace from hitting its idle timeout by periodically
+ * generating activity over SSH. Replaces any existing session.
+ * @param codespaceName - The name of the codespace
+ * @param durationMinutes - How long to keep the codespace alive
+ * @returns When keep alive ends
+ */
+export function start(codespaceName: string, durationMinutes: number): Date {
+  clearSession(codespaceName);
+
+  const expiresAt = new Date(Date.now() + durationMinutes * 60 * 1000);
+  persist((persisted) => {
+    persisted[codespaceName] = expiresAt.toISOString();
+  });
+  startSession(codespaceName, expiresAt);
+
+  return expiresAt;
+}
+
+/**
+ * Stops keeping a codespace alive.
+ * @param codespaceName - The name of the codespace
+ * @returns True if a keep alive session was stopped
+ */
+export function stop(codespaceName: string): boolean {
+  const wasPersisted = codespaceName in getPersisted();
+  if (wasPersisted) {
+    persist((persisted) => {
+      delete persisted[codespaceName];
+    });
+  }
+  return clearSession(codespaceName) || wasPersisted;
+}
+
+/**
+ * Stops generating activity in this window. Called when the extension deactivates;
+ * the sessions stay persisted and resume on the next activation.
+ */
+export function stopAll(): void {
+  for (const session of sessions.values()) {
+    clearInterval(session.pingTimer);
+    clearTimeout(session.expiryTimer);
+  }
+  sessions.clear();
+}
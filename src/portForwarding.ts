@@ -0,0 +1,119 @@
+import { ChildProcess } from 'child_process';
+import * as vscode from 'vscode';
+import * as ghCli from './ghCli';
+import { GhCliError } from './types';
+import { log } from './extension';
+
+interface ActiveForward {
+  codespaceName: string;
+  remotePort: number;
+  localPort: number;
+  process: ChildProcess;
+}
+
+// How long a forward must stay up before it is considered established
+const STARTUP_GRACE_MS = 2000;
+
+const activeForwards = new Map<string, ActiveForward>();
+
+function getForwardKey(codespaceName: string, remotePort: number): string {
+  return `${codespaceName}:${remotePort}`;
+}
+
+/**
+ * Returns the local port a codespace port is forwarded to, if any.
+ * @param codespaceName - The name of the codespace
+ * @param remotePort - The port number in the codespace
+ */
+export function getLocalPort(codespaceName: string, remotePort: number): number | undefined {
+  return activeForwards.get(getForwardKey(codespaceName, remotePort))?.localPort;
+}
+
+/**
+ * Starts forwarding a codespace port to localhost.
+ * Resolves once the tunnel has stayed up through a short startup grace period.
+ * @param codespaceName - The name of the codespace
+ * @param remotePort - The port number in the codespace
+ * @param localPort - The local port to listen on
+ * @throws {GhCliError} If the port is already forwarded or the tunnel exits during startup
+ */
+export async function startForwarding(
+  codespaceName: string,
+  remotePort: number,
+  localPort: number
+): Promise<void> {
+  const key = getForwardKey(codespaceName, remotePort);
+  if (activeForwards.has(key)) {
+    throw new GhCliError(
+      'COMMAND_FAILED',
+      vscode.l10n.t('Port {0} is already forwarded', remotePort)
+    );
+  }
+
+  const child = ghCli.forwardPort(codespaceName, remotePort, localPort);
+  let stderr = '';
+  child.stderr?.on('data', (chunk: Buffer) => {
+    stderr += chunk.toString();
+  });
+
+  const forward: ActiveForward = { codespaceName, remotePort, localPort, process: child };
+  activeForwards.set(key, forward);
+
+  const startupError = await new Promise<Error | undefined>((resolve) => {
+    const timer = setTimeout(() => resolve(undefined), STARTUP_GRACE_MS);
+    child.once('error', (error) => {
+      clearTimeout(timer);
+      resolve(error);
+    });
+    child.once('exit', (code) => {
+      clearTimeout(timer);
+      resolve(new Error(stderr.trim() || `gh exited with code ${code ?? 'unknown'}`));
+    });
+  });
+
+  if (startupError) {
+    activeForwards.delete(key);
+    throw new GhCliError(
+      'COMMAND_FAILED',
+      vscode.l10n.t('Failed to forward port {0}: {1}', remotePort, startupError.message),
+      stderr
+    );
+  }
+
+  // The tunnel can still drop later (e.g. the codespace stops)
+  child.once('exit', (code) => {
+    if (activeForwards.get(key) !== forward) {
+      return;
+    }
+    activeForwards.delete(key);
+    log(`Port forward ${key} -> localhost:${localPort} exited with code ${code ?? 'unknown'}`);
+    void vscode.commands.executeCommand('openSpaces.refresh');
+  });
+}
+
+/**
+ * Stops forwarding a codespace port.
+ * @param codespaceName - The name of the codespace
+ * @param remotePort - The port number in the codespace
+ * @returns True if a forward was stopped
+ */
+export function stopForwarding(codespaceName: string, remotePort: number): boolean {
+  const key = getForwardKey(codespaceName, remotePort);
+  const forward = activeForwards.get(key);
+  if (!forward) {
+    return false;
+  }
+  activeForwards.delete(key);
+  forward.process.kill();
+  return true;
+}
+
+/**
+ * Stops all active port forwards. Called when the extension deactivates.
+ */
+export function stopAll(): void {
+  for (const forward of activeForwards.values()) {
+    forward.process.kill();
+  }
+  activeForwards.clear();
+}
@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+import { Codespace } from './types';
+
+export interface RecentCodespace {
+  name: string;
+  displayName: string;
+  repository: string;
+  lastConnectedAt: string;
+  /** The folder or workspace file last chosen when connecting */
+  lastFolder?: string;
+}
+
+const RECENT_CODESPACES_KEY = 'recentCodespaces';
+const MAX_RECENT_CODESPACES = 10;
+
+/**
+ * Gets the codespaces connected to through the extension, most recent first.
+ * @param state - Global state holding the history
+ */
+export function getRecent(state: vscode.Memento): RecentCodespace[] {
+  return state.get<RecentCodespace[]>(RECENT_CODESPACES_KEY, []);
+}
+
+/**
+ * Moves a codespace to the top of the history.
+ * @param state - Global state holding the history
+ * @param codespace - The codespace that was connected to
+ */
+export async function addRecent(state: vscode.Memento, codespace: Codespace): Promise<void> {
+  const existing = getRecent(state);
+  const recent = existing.filter((entry) => entry.name !== codespace.name);
+  recent.unshift({
+    name: codespace.name,
+    displayName: codespace.displayName,
+    repository: codespace.repository,
+    lastConnectedAt: new Date().toISOString(),
+    lastFolder: existing.find((entry) => entry.name === codespace.name)?.lastFolder,
+  });
+  await state.update(RECENT_CODESPACES_KEY, recent.slice(0, MAX_RECENT_CODESPACES));
+}
+
+/**
+ * Gets the folder last chosen when connecting to a codespace.
+ * @param state - Global state holding the history
+ * @param codespaceName - The name of the codespace
+ */
+export function getLastFolder(state: vscode.Memento, codespaceName: string): string | undefined {
+  return getRecent(state).find((entry) => entry.name === codespaceName)?.lastFolder;
+}
+
+/**
+ * Remembers the folder chosen when connecting to a codespace in the history.
+ * @param state - Global state holding the history
+ * @param codespaceName - The name of the codespace
+ * @param folder - The chosen folder or workspace file
+ */
+export async function setLastFolder(state: vscode.Memento, codespaceName: string, folder: string): Promise<void> {
+  const recent = getRecent(state);
+  const entry = recent.find((candidate) => candidate.name === codespaceName);
+  if (entry && entry.lastFolder !== folder) {
+    entry.lastFolder = folder;
+    await state.update(RECENT_CODESPACES_KEY, recent);
+  }
+}
+
+/**
+ * Removes a codespace from the history, e.g. after it was deleted.
+ * @param state - Global state holding the history
+ * @param codespaceName - The name of the codespace
+ */
+export async function removeRecent(state: vscode.Memento, codespaceName: string): Promise<void> {
+  const recent = getRecent(state);
+  const filtered = recent.filter((entry) => entry.name !== codespaceName);
+  if (filtered.length !== recent.length) {
+    await state.update(RECENT_CODESPACES_KEY, filtered);
+  }
+}
@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as ghCli from './ghCli';
+import { Codespace } from './types';
+import { log } from './extension';
+import { ensureError } from './utils/errors';
+
+const WORKSPACE_FILE_EXTENSION = '.code-workspace';
+const MAX_WORKSPACE_FILES = 20;
+
+interface FolderPickItem extends vscode.QuickPickItem {
+  folder?: string;
+  browse?: boolean;
+}
+
+/**
+ * Quotes a value for use as a single argument in a POSIX shell command.
+ */
+function quoteShellArgument(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Returns the folder a codespace's repository is cloned into by default.
+ * Codespaces created from a template use the template's folder until published.
+ * @param codespace - The codespace
+ */
+export function getRepositoryFolder(codespace: Codespace): string {
+  const repoName = codespace.repository.split('/').pop();
+  return repoName ? `/workspaces/${repoName}` : '/workspaces';
+}
+
+/**
+ * Reads the folder the codespace opens in VS Code, which honors a custom
+ * `workspaceFolder` in devcontainer.json. Falls back to the repository folder.
+ * @param codespace - The codespace, which must be running
+ */
+export async function getWorkspaceFolder(codespace: Codespace): Promise<string> {
+  try {
+    const output = await ghCli.runSshCommand(codespace.name, 'printf "%s" "${CODESPACE_VSCODE_FOLDER:-}"', 60000);
+    const folder = output.trim();
+    if (folder.startsWith('/')) {
+      return folder;
+    }
+  } catch (error) {
+    log(`Failed to read workspace folder of codespace ${codespace.name}`, ensureError(error));
+  }
+  return getRepositoryFolder(codespace);
+}
+
+/**
+ * Finds .code-workspace files under a folder, skipping dependency and git folders.
+ * @param codespace - The codespace, which must be running
+ * @param folder - The folder to search
+ */
+async function findWorkspaceFiles(codespace: Codespace, folder: string): Promise<string[]> {
+  const command =
+    `find ${quoteShellArgument(folder)} -maxdepth 3 \\( -name node_modules -o -name .git \\) -prune ` +
+    `-o -type f -name '*${WORKSPACE_FILE_EXTENSION}' -print 2>/dev/null | head -n ${MAX_WORKSPACE_FILES}`;
+  const output = await ghCli.runSshCommand(codespace.name, command, 60000);
+  return output.split('\n').map((line) => line.trim()).filter(Boolean).sort();
+}
+
+/**
+ * Lists the subfolders and workspace files of a folder.
+ * @param codespace - The codespace, which must be running
+ * @param folder - The folder to list
+ */
+async function listFolder(codespace: Codespace, folder: string): Promise<{ folders: string[]; workspaceFiles: string[] }> {
+  const output = await ghCli.runSshCommand(codespace.name, `ls -1Ap ${quoteShellArgument(folder)}`, 60000);
+  const names = output.split('\n').filter(Boolean);
+  return {
+    folders: names.filter((name) => name.endsWith('/')).map((name) => name.slice(0, -1)),
+    workspaceFiles: names.filter((name) => name.endsWith(WORKSPACE_FILE_EXTENSION)),
+  };
+}
+
+/**
+ * Lets the user navigate the codespace's file system to pick a folder or workspace file.
+ * @param codespace - The codespace, which must be running
+ * @param startFolder - The folder to start in
+ * @returns The chosen path, or undefined if cancelled
+ */
+async function browseFolder(codespace: Codespace, startFolder: string): Promise<string | undefined> {
+  let current = startFolder;
+
+  for (;;) {
+    const folder = current;
+    const contents = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: vscode.l10n.t('Listing {0}...', folder),
+        cancellable: false,
+      },
+      () => listFolder(codespace, folder)
+    );
+
+    const items: FolderPickItem[] = [
+      { label: `$(check) ${vscode.l10n.t('Open This Folder')}`, description: folder, folder, alwaysShow: true },
+    ];
+    if (folder !== '/') {
+      items.push({ label: '$(arrow-up) ..', browse: true, folder: path.posix.dirname(folder), alwaysShow: true });
+    }
+    items.push(
+      ...contents.workspaceFiles.map((name) => ({
+        label: `$(file-code) ${name}`,
+        folder: path.posix.join(folder, name),
+      })),
+      ...contents.folders.map((name) => ({
+        label: `$(folder) ${name}`,
+        browse: true,
+        folder: path.posix.join(folder, name),
+      }))
+    );
+
+    const selected = await vscode.window.showQuickPick(items, {
+      title: vscode.l10n.t('Browse {0}', codespace.displayName),
+      placeHolder: folder,
+      matchOnDescription: true,
+    });
+    if (!selected?.folder) {
+      return undefined;
+    }
+    if (!selected.browse) {
+      return selected.folder;
+    }
+    current = selected.folder;
+  }
+}
+
+/**
+ * Asks which folder or workspace file to open in a codespace, offering the
+ * codespace's workspace folder, the last opened folder, the workspace files
+ * found in the workspace folder, and a folder browser.
+ * @param codespace - The codespace, which must be running
+ * @param lastFolder - The folder last opened in this codespace, if any
+ * @returns The chosen path, or undefined if cancelled
+ */
+export async function chooseFolder(codespace: Codespace, lastFolder?: string): Promise<string | undefined> {
+  const { workspaceFolder, workspaceFiles } = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Looking for folders in {0}...', codespace.displayName),
+      cancellable: false,
+    },
+    async () => {
+      const folder = await getWorkspaceFolder(codespace);
+      let files: string[] = [];
+      try {
+        files = await findWorkspaceFiles(codespace, folder);
+      } catch (error) {
+        log(`Failed to find workspace files in codespace ${codespace.name}`, ensureError(error));
+      }
+      return { workspaceFolder: folder, workspaceFiles: files };
+    }
+  );
+
+  const items: FolderPickItem[] = [
+    { label: `$(root-folder) ${workspaceFolder}`, description: vscode.l10n.t('Workspace folder'), folder: workspaceFolder },
+  ];
+  if (lastFolder && lastFolder !== workspaceFolder) {
+    items.push({ label: `$(history) ${lastFolder}`, description: vscode.l10n.t('Last opened'), folder: lastFolder });
+  }
+  if (workspaceFiles.length > 0) {
+    items.push({ label: vscode.l10n.t('Workspace Files'), kind: vscode.QuickPickItemKind.Separator });
+    items.push(
+      ...workspaceFiles.map((file) => ({
+        label: `$(file-code) ${path.posix.basename(file)}`,
+        description: path.posix.dirname(file),
+        folder: file,
+      }))
+    );
+  }
+  items.push(
+    { label: '', kind: vscode.QuickPickItemKind.Separator },
+    { label: `$(folder-opened) ${vscode.l10n.t('Browse...')}`, browse: true, folder: workspaceFolder }
+  );
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: vscode.l10n.t('Open Folder in {0}', codespace.displayName),
+    placeHolder: vscode.l10n.t('Select a folder or workspace file to open'),
+    matchOnDescription: true,
+  });
+  if (!selected?.folder) {
+    return undefined;
+  }
+  return selected.browse ? browseFolder(codespace, selected.folder) : selected.folder;
+}
@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+import * as config from './config';
+import { log } from './extension';
+
+const OPEN_REMOTE_SSH_ID = 'jeanp413.open-remote-ssh';
+const MICROSOFT_REMOTE_SSH_ID = 'ms-vscode-remote.remote-ssh';
+
+/**
+ * A Remote-SSH extension that connects to the hosts written to the SSH config.
+ */
+export interface RemoteSshAdapter {
+  /** The value of `openSpaces.remoteSsh.adapter` selecting this adapter */
+  id: config.RemoteSshAdapterSetting;
+  /** The extension's marketplace identifier */
+  extensionId: string;
+  /** Human-readable name for messages */
+  displayName: string;
+  /** Returns why the extension cannot be used in this editor, if it cannot */
+  getUnavailableReason(): string | undefined;
+  /** Makes the extension pick up hosts that were just written to the SSH config */
+  refreshHosts(): Promise<void>;
+  /** Opens a folder or workspace file on an SSH host in the current window */
+  openFolder(host: string, folder: string): Promise<void>;
+}
+
+/**
+ * Opens a folder using the `ssh-remote` authority shared by Remote-SSH and its forks.
+ * Format: vscode-remote://ssh-remote+hostname/path
+ */
+async function openSshRemoteFolder(host: string, folder: string): Promise<void> {
+  const remoteUri = vscode.Uri.from({ scheme: 'vscode-remote', authority: `ssh-remote+${host}`, path: folder });
+  await vscode.commands.executeCommand('vscode.openFolder', remoteUri, {
+    forceNewWindow: false,
+  });
+}
+
+/**
+ * Runs a command that may not exist in the installed extension version.
+ */
+async function executeOptionalCommand(command: string): Promise<void> {
+  await vscode.commands.executeCommand(command).then(
+    () => {},
+    () => {} // Ignore if command doesn't exist
+  );
+}
+
+const openRemoteSshAdapter: RemoteSshAdapter = {
+  id: 'openRemoteSsh',
+  extensionId: OPEN_REMOTE_SSH_ID,
+  displayName: 'Open Remote - SSH',
+  getUnavailableReason: () => undefined,
+  refreshHosts: () => executeOptionalCommand('openremotessh.explorer.refresh'),
+  openFolder: openSshRemoteFolder,
+};
+
+const microsoftRemoteSshAdapter: RemoteSshAdapter = {
+  id: 'microsoft',
+  extensionId: MICROSOFT_REMOTE_SSH_ID,
+  displayName: 'Remote - SSH',
+  // Microsoft's Remote-SSH license only permits use with Microsoft's Visual Studio Code builds
+  getUnavailableReason: () =>
+    vscode.env.appName.startsWith('Visual Studio Code')
+      ? undefined
+      : vscode.l10n.t('Microsoft Remote - SSH can only be used with Visual Studio Code, not {0}.', vscode.env.appName),
+  // Remote - SSH watches the SSH config file and has no refresh command of its own
+  refreshHosts: () => Promise.resolve(),
+  openFolder: openSshRemoteFolder,
+};
+
+/**
+ * Creates the adapter for another fork of Remote-SSH that uses the `ssh-remote` authority.
+ */
+function createOtherAdapter(extensionId: string): RemoteSshAdapter {
+  return {
+    id: 'other',
+    extensionId,
+    displayName: extensionId,
+    getUnavailableReason: () => undefined,
+    refreshHosts: () => executeOptionalCommand('remote-ssh.refreshHosts'),
+    openFolder: openSshRemoteFolder,
+  };
+}
+
+/**
+ * Returns the adapters to consider, in order of preference, for the current settings.
+ */
+function getCandidateAdapters(): RemoteSshAdapter[] {
+  const otherExtensionId = config.getRemoteSshExtensionId();
+  const other = otherExtensionId ? [createOtherAdapter(otherExtensionId)] : [];
+
+  switch (config.getRemoteSshAdapter()) {
+    case 'openRemoteSsh':
+      return [openRemoteSshAdapter];
+    case 'microsoft':
+      return [microsoftRemoteSshAdapter];
+    case 'other':
+      return other;
+    default:
+      return [openRemoteSshAdapter, microsoftRemoteSshAdapter, ...other];
+  }
+}
+
+function isUsable(adapter: RemoteSshAdapter): boolean {
+  return vscode.extensions.getExtension(adapter.extensionId) !== undefined && !adapter.getUnavailableReason();
+}
+
+/**
+ * Gets the Remote-SSH adapter selected by `openSpaces.remoteSsh.adapter`.
+ * With the default `auto`, this is the first supported extension that is installed.
+ * @returns The adapter, or undefined if the selected extension is not installed or cannot be used
+ */
+export function getAdapter(): RemoteSshAdapter | undefined {
+  return getCandidateAdapters().find(isUsable);
+}
+
+/**
+ * Explains why no Remote-SSH extension can be used and offers to fix it.
+ */
+export async function showMissingAdapterDiagnostic(): Promise<void> {
+  const candidates = getCandidateAdapters();
+  const installed = candidates.find((adapter) => vscode.extensions.getExtension(adapter.extensionId));
+  const unavailableReason = installed?.getUnavailableReason();
+
+  let message: string;
+  let extensionToInstall: string | undefined = OPEN_REMOTE_SSH_ID;
+  if (unavailableReason) {
+    message = vscode.l10n.t('{0} Install Open Remote - SSH or choose another extension in the settings.', unavailableReason);
+  } else if (candidates.length === 0) {
+    message = vscode.l10n.t('Set the extension ID of your Remote-SSH extension to connect to codespaces.');
+    extensionToInstall = undefined;
+  } else if (config.getRemoteSshAdapter() === 'auto') {
+    message = vscode.l10n.t('Open Remote - SSH extension is required to connect to codespaces.');
+  } else {
+    message = vscode.l10n.t('The {0} extension selected to connect to codespaces is not installed.', candidates[0].displayName);
+    extensionToInstall = candidates[0].extensionId;
+  }
+  log(`No usable Remote-SSH extension: ${message}`);
+
+  const installLabel = vscode.l10n.t('Install Extension');
+  const settingsLabel = vscode.l10n.t('Open Settings');
+  const selection = await vscode.window.showWarningMessage(
+    message,
+    ...(extensionToInstall ? [installLabel, settingsLabel] : [settingsLabel])
+  );
+  if (selection === installLabel && extensionToInstall) {
+    await vscode.env.openExternal(vscode.Uri.parse(`vscode:extension/${extensionToInstall}`));
+  } else if (selection === settingsLabel) {
+    await vscode.commands.executeCommand('workbench.action.openSettings', 'openSpaces.remoteSsh');
+  }
+}
@@ -1,12 +1,27 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { SshConfigEntry } from './types';
+import { SshConfigEntry, SshConfigOption } from './types';
+import {
+  createSshConfigLine,
+  getDirectives,
+  parseSshArguments,
+  parseSshConfig,
+  stringifySshConfig,
+} from './sshConfigParser';
+import { withFileLock } from './utils/fileLock';
 
-const SSH_CONFIG_PATH = path.join(os.homedir(), '.ssh', 'config');
 const SSH_DIR = path.join(os.homedir(), '.ssh');
-const MARKER_START = '# >>> Open Spaces';
-const MARKER_END = '# <<< Open Spaces';
+const SSH_CONFIG_PATH = path.join(SSH_DIR, 'config');
+const MANAGED_CONFIG_PATH = path.join(SSH_DIR, 'open-spaces.conf');
+const MANAGED_INCLUDE_PATH = '~/.ssh/open-spaces.conf';
+const CODESPACE_TAG = '# Codespace: ';
+const MAX_BACKUPS = 3;
+const MAX_WRITE_ATTEMPTS = 3;
+
+// Entries used to be spliced into ~/.ssh/config between these markers
+const LEGACY_MARKER_START = '# >>> Open Spaces';
+const LEGACY_MARKER_END = '# <<< Open Spaces';
 
 /**
  * Validates an SSH config value to prevent injection attacks.
@@ -24,94 +39,133 @@ function validateSshConfigValue(key: string, value: string): string {
   return value;
 }
 
-function ensureSshDir(): void {
-  if (!fs.existsSync(SSH_DIR)) {
-    fs.mkdirSync(SSH_DIR, { mode: 0o700 });
-  }
+async function ensureSshDir(): Promise<void> {
+  await fs.promises.mkdir(SSH_DIR, { recursive: true, mode: 0o700 });
 }
 
-function readSshConfig(): string {
-  ensureSshDir();
-  if (!fs.existsSync(SSH_CONFIG_PATH)) {
+function readFileIfExistsSync(filePath: string): string {
+  if (!fs.existsSync(filePath)) {
     return '';
   }
-  return fs.readFileSync(SSH_CONFIG_PATH, 'utf-8');
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+async function readFileIfExists(filePath: string): Promise<string> {
+  try {
+    return await fs.promises.readFile(filePath, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return '';
+    }
+    throw err;
+  }
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.promises.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
 }
 
-function writeSshConfig(content: string): void {
-  ensureSshDir();
-  fs.writeFileSync(SSH_CONFIG_PATH, content, { mode: 0o600 });
+/**
+ * Copies a file to `<file>.bak.1`, shifting older backups up to MAX_BACKUPS.
+ */
+async function backupFile(filePath: string): Promise<void> {
+  if (!(await pathExists(filePath))) {
+    return;
+  }
+  for (let i = MAX_BACKUPS - 1; i >= 1; i--) {
+    const older = `${filePath}.bak.${i}`;
+    if (await pathExists(older)) {
+      await fs.promises.rename(older, `${filePath}.bak.${i + 1}`);
+    }
+  }
+  await fs.promises.copyFile(filePath, `${filePath}.bak.1`);
 }
 
+/**
+ * Replaces a file with new content, unless it no longer has the expected content.
+ * The content is written to a temporary file that is renamed over the original,
+ * so a crash never leaves a half-written file behind. The check and the rename
+ * happen while holding a lock file, so writers in other windows cannot interleave.
+ * A symlinked file is written through the link, and its permissions are kept.
+ * @param filePath - The file to write
+ * @param expected - The content the change was based on
+ * @param content - The new content
+ * @returns False if the file was changed by someone else since it was read
+ * @throws {Error} If another process holds the lock for too long
+ */
+async function writeFileAtomic(filePath: string, expected: string, content: string): Promise<boolean> {
+  const targetPath = (await pathExists(filePath)) ? await fs.promises.realpath(filePath) : filePath;
+  const mode = (await pathExists(targetPath)) ? (await fs.promises.stat(targetPath)).mode & 0o777 : 0o600;
+
+  return withFileLock(targetPath, async () => {
+    // Another window may have written the file since we read it
+    if ((await readFileIfExists(targetPath)) !== expected) {
+      return false;
+    }
+
+    const tempPath = `${targetPath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, content, { mode });
+    // The mode passed to writeFile is reduced by the umask
+    await fs.promises.chmod(tempPath, mode);
+    await backupFile(filePath);
+    await fs.promises.rename(tempPath, targetPath);
+    return true;
+  });
+}
+
+type SshConfigEntryField = Exclude<keyof SshConfigEntry, 'host' | 'otherOptions'>;
+
+/**
+ * Fields of SshConfigEntry that hold a single directive, by lowercase keyword.
+ */
+const ENTRY_FIELDS: Record<string, SshConfigEntryField> = {
+  hostname: 'hostName',
+  user: 'user',
+  proxycommand: 'proxyCommand',
+  identityfile: 'identityFile',
+  stricthostkeychecking: 'strictHostKeyChecking',
+  userknownhostsfile: 'userKnownHostsFile',
+  loglevel: 'logLevel',
+  controlmaster: 'controlMaster',
+  controlpath: 'controlPath',
+  controlpersist: 'controlPersist',
+};
+
 /**
  * Parses SSH config output from gh CLI into structured entries.
+ * Directives without a dedicated field are kept in `otherOptions`.
  * @param configOutput - Raw SSH config output string
  * @returns Array of parsed SSH config entries
  */
 export function parseSshConfigOutput(configOutput: string): SshConfigEntry[] {
   const entries: SshConfigEntry[] = [];
-  let currentEntry: Partial<SshConfigEntry> | null = null;
-
-  const lines = configOutput.split('\n');
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-
-    if (!trimmed || trimmed.startsWith('#')) {
-      continue;
-    }
 
-    const match = trimmed.match(/^(\S+)\s+(.+)$/);
-    if (!match) {
+  for (const section of parseSshConfig(configOutput).sections) {
+    if (section.header?.keyword?.toLowerCase() !== 'host' || !section.header.value) {
       continue;
     }
 
-    const [, key, value] = match;
-    const keyLower = key.toLowerCase();
+    const entry: Partial<SshConfigEntry> = { host: section.header.value };
+    const otherOptions: SshConfigOption[] = [];
 
-    if (keyLower === 'host') {
-      if (currentEntry && currentEntry.host) {
-        entries.push(currentEntry as SshConfigEntry);
-      }
-      currentEntry = { host: value };
-    } else if (currentEntry) {
-      switch (keyLower) {
-        case 'hostname':
-          currentEntry.hostName = value;
-          break;
-        case 'user':
-          currentEntry.user = value;
-          break;
-        case 'proxycommand':
-          currentEntry.proxyCommand = value;
-          break;
-        case 'identityfile':
-          currentEntry.identityFile = value;
-          break;
-        case 'stricthostkeychecking':
-          currentEntry.strictHostKeyChecking = value;
-          break;
-        case 'userknownhostsfile':
-          currentEntry.userKnownHostsFile = value;
-          break;
-        case 'loglevel':
-          currentEntry.logLevel = value;
-          break;
-        case 'controlmaster':
-          currentEntry.controlMaster = value;
-          break;
-        case 'controlpath':
-          currentEntry.controlPath = value;
-          break;
-        case 'controlpersist':
-          currentEntry.controlPersist = value;
-          break;
+    for (const { keyword, value } of getDirectives(section)) {
+      const field = ENTRY_FIELDS[keyword.toLowerCase()];
+      if (field) {
+        entry[field] = value;
+      } else {
+        otherOptions.push({ keyword, value });
       }
     }
-  }
 
-  if (currentEntry && currentEntry.host) {
-    entries.push(currentEntry as SshConfigEntry);
+    if (otherOptions.length > 0) {
+      entry.otherOptions = otherOptions;
+    }
+    entries.push(entry as SshConfigEntry);
   }
 
   return entries;
@@ -161,90 +215,307 @@ export function formatSshConfigEntry(entry: SshConfigEntry): string {
   if (entry.controlPersist) {
     lines.push(`  ControlPersist ${validateSshConfigValue('ControlPersist', entry.controlPersist)}`);
   }
+  for (const option of entry.otherOptions ?? []) {
+    const keyword = validateSshConfigValue('keyword', option.keyword);
+    if (!/^[A-Za-z][A-Za-z0-9]*$/.test(keyword)) {
+      throw new Error(`Invalid SSH config keyword: ${keyword}`);
+    }
+    lines.push(`  ${keyword} ${validateSshConfigValue(keyword, option.value)}`);
+  }
 
   return lines.join('\n');
 }
 
 /**
- * Updates the managed section of the SSH config file.
- * The managed section is marked with special comments and won't affect other SSH config.
- * @param newEntries - Array of SSH config entries to write
+ * Directives that must not be added to a host entry because they would start
+ * a new section, pull in other files, run local commands, or redirect the
+ * connection away from the codespace.
  */
-export function updateManagedSection(newEntries: SshConfigEntry[]): void {
-  const existingConfig = readSshConfig();
+const DISALLOWED_EXTRA_OPTIONS = [
+  'host',
+  'match',
+  'include',
+  'proxycommand',
+  'proxyjump',
+  'localcommand',
+  'permitlocalcommand',
+  'knownhostscommand',
+  'hostname',
+  'user',
+  'identityfile',
+];
 
-  // Remove existing managed section
-  const markerStartIndex = existingConfig.indexOf(MARKER_START);
-  const markerEndIndex = existingConfig.indexOf(MARKER_END);
+/**
+ * Merges user-configured options into an SSH config entry.
+ * Options replace the generated directives with the same keyword; an option
+ * given several times (such as LocalForward) is added once per value.
+ * @param entry - The entry generated by gh CLI
+ * @param options - The options to merge
+ * @returns A new entry with the options applied
+ * @throws {Error} If an option is not allowed in a host entry or contains invalid characters
+ */
+export function mergeSshOptions(entry: SshConfigEntry, options: SshConfigOption[]): SshConfigEntry {
+  const merged: SshConfigEntry = { ...entry, otherOptions: [...(entry.otherOptions ?? [])] };
+  const replaced = new Set<string>();
+
+  for (const { keyword, value } of options) {
+    const key = keyword.toLowerCase();
+    if (DISALLOWED_EXTRA_OPTIONS.includes(key) || !/^[A-Za-z][A-Za-z0-9]*$/.test(keyword)) {
+      throw new Error(`SSH option ${keyword} cannot be added to a codespace host entry`);
+    }
+    validateSshConfigValue(keyword, value);
 
-  let beforeSection = existingConfig;
-  let afterSection = '';
+    const field = ENTRY_FIELDS[key];
+    if (field) {
+      merged[field] = value;
+      continue;
+    }
+    if (!replaced.has(key)) {
+      merged.otherOptions = merged.otherOptions?.filter((option) => option.keyword.toLowerCase() !== key);
+      replaced.add(key);
+    }
+    merged.otherOptions?.push({ keyword, value });
+  }
 
-  if (markerStartIndex !== -1 && markerEndIndex !== -1) {
-    beforeSection = existingConfig.substring(0, markerStartIndex).trimEnd();
-    afterSection = existingConfig.substring(markerEndIndex + MARKER_END.length).trimStart();
+  if (merged.otherOptions?.length === 0) {
+    delete merged.otherOptions;
   }
+  return merged;
+}
+
+export interface ManagedSshEntry {
+  codespaceName: string;
+  entry: SshConfigEntry;
+}
 
-  // Build new managed section
-  const managedSection = [
-    MARKER_START,
-    '# This section is managed by Open Spaces extension',
+/**
+ * Derives the codespace name from a host generated by `gh codespace ssh --config`
+ * (`cs.<codespace>.<branch>`). Used for entries written before hosts were tagged.
+ */
+function getCodespaceNameFromHost(host: string): string | undefined {
+  const match = host.match(/^cs\.([^.]+)\./);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Parses managed config content into entries, one per connected codespace.
+ */
+function parseManagedEntries(content: string): ManagedSshEntry[] {
+  const entries: ManagedSshEntry[] = [];
+  let codespaceName: string | undefined;
+  let block: string[] = [];
+
+  const flush = (): void => {
+    for (const entry of parseSshConfigOutput(block.join('\n'))) {
+      const name = codespaceName ?? getCodespaceNameFromHost(entry.host);
+      if (name) {
+        entries.push({ codespaceName: name, entry });
+      }
+    }
+    block = [];
+  };
+
+  for (const line of content.split('\n')) {
+    if (line.startsWith(CODESPACE_TAG)) {
+      flush();
+      codespaceName = line.substring(CODESPACE_TAG.length).trim();
+    } else {
+      block.push(line);
+    }
+  }
+  flush();
+
+  return entries;
+}
+
+/**
+ * Returns the position of the legacy managed section in ~/.ssh/config, if present.
+ */
+function findLegacySection(config: string): { start: number; end: number } | undefined {
+  const start = config.indexOf(LEGACY_MARKER_START);
+  const end = config.indexOf(LEGACY_MARKER_END);
+  if (start === -1 || end === -1) {
+    return undefined;
+  }
+  return { start, end: end + LEGACY_MARKER_END.length };
+}
+
+function formatManagedConfig(entries: ManagedSshEntry[]): string {
+  return [
+    '# This file is managed by Open Spaces extension',
     '# Do not edit manually - changes will be overwritten',
     '',
-    ...newEntries.map((entry) => formatSshConfigEntry(entry)),
-    '',
-    MARKER_END,
+    ...entries.map(({ codespaceName, entry }) =>
+      `${CODESPACE_TAG}${validateSshConfigValue('Codespace', codespaceName)}\n${formatSshConfigEntry(entry)}\n`
+    ),
   ].join('\n');
+}
 
-  // Combine sections
-  const parts: string[] = [];
+/**
+ * Resolves a path given to Include in ~/.ssh/config the way ssh does:
+ * `~` is the home directory and relative paths are relative to ~/.ssh.
+ */
+function resolveIncludePath(includePath: string): string {
+  return path.resolve(SSH_DIR, includePath.replace(/^~(?=$|\/)/, os.homedir()));
+}
 
-  if (beforeSection.trim()) {
-    parts.push(beforeSection);
+/**
+ * Checks whether the global section of an SSH config includes the managed file.
+ */
+function hasManagedInclude(config: string): boolean {
+  const globalSection = parseSshConfig(config).sections[0];
+  return getDirectives(globalSection).some(
+    (directive) =>
+      directive.keyword.toLowerCase() === 'include' &&
+      parseSshArguments(directive.value).some((arg) => resolveIncludePath(arg) === MANAGED_CONFIG_PATH)
+  );
+}
+
+/**
+ * Makes ~/.ssh/config include the managed file, removing the legacy managed section.
+ * The include is added at the top so it applies regardless of other Host blocks.
+ * @returns Entries found in the legacy section, to be carried over
+ * @throws {Error} If ~/.ssh/config keeps changing while it is updated
+ */
+async function ensureInclude(): Promise<ManagedSshEntry[]> {
+  for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+    const config = await readFileIfExists(SSH_CONFIG_PATH);
+    const legacySection = findLegacySection(config);
+    const hasInclude = hasManagedInclude(config);
+
+    if (hasInclude && !legacySection) {
+      return [];
+    }
+
+    let rest = config;
+    let legacyEntries: ManagedSshEntry[] = [];
+    if (legacySection) {
+      legacyEntries = parseManagedEntries(config.substring(legacySection.start, legacySection.end));
+      rest = [config.substring(0, legacySection.start).trimEnd(), config.substring(legacySection.end).trimStart()]
+        .filter((part) => part.trim())
+        .join('\n\n');
+    }
+
+    let content = rest.trim() ? rest.trimEnd() + '\n' : '';
+    if (!hasInclude) {
+      // Include must come before any Host or Match line to apply to all hosts
+      const parsed = parseSshConfig(content);
+      parsed.sections[0].lines.unshift(
+        { raw: '# Added by Open Spaces extension' },
+        createSshConfigLine('Include', MANAGED_INCLUDE_PATH, ''),
+        ...(content ? [{ raw: '' }] : [])
+      );
+      content = stringifySshConfig(parsed);
+      if (!content.endsWith('\n')) {
+        content += '\n';
+      }
+    }
+
+    if (await writeFileAtomic(SSH_CONFIG_PATH, config, content)) {
+      return legacyEntries;
+    }
   }
 
-  if (newEntries.length > 0) {
-    parts.push(managedSection);
+  throw new Error(`${SSH_CONFIG_PATH} was modified by another process while updating it`);
+}
+
+/**
+ * Reads the managed entries, one per connected codespace.
+ * Falls back to the legacy section in ~/.ssh/config if it has not been migrated yet.
+ */
+export function readManagedEntries(): ManagedSshEntry[] {
+  if (fs.existsSync(MANAGED_CONFIG_PATH)) {
+    return parseManagedEntries(readFileIfExistsSync(MANAGED_CONFIG_PATH));
   }
+  const config = readFileIfExistsSync(SSH_CONFIG_PATH);
+  const legacySection = findLegacySection(config);
+  return legacySection ? parseManagedEntries(config.substring(legacySection.start, legacySection.end)) : [];
+}
+
+/**
+ * Updates the managed SSH config file, which ~/.ssh/config includes.
+ * If another window writes the file concurrently, the update is retried on top of its changes.
+ * @param update - Computes the new entries from the current ones
+ * @param legacyEntries - Entries migrated from the legacy section, added unless already present
+ * @throws {Error} If the file keeps changing while it is updated
+ */
+async function updateManagedEntries(
+  update: (entries: ManagedSshEntry[]) => ManagedSshEntry[],
+  legacyEntries: ManagedSshEntry[] = []
+): Promise<void> {
+  for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+    const current = await readFileIfExists(MANAGED_CONFIG_PATH);
+    const currentEntries = parseManagedEntries(current);
+    // Carry over entries from the legacy section that were not written here yet
+    for (const legacy of legacyEntries) {
+      if (!currentEntries.some((managed) => managed.codespaceName === legacy.codespaceName)) {
+        currentEntries.push(legacy);
+      }
+    }
 
-  if (afterSection.trim()) {
-    parts.push(afterSection);
+    if (await writeFileAtomic(MANAGED_CONFIG_PATH, current, formatManagedConfig(update(currentEntries)))) {
+      return;
+    }
   }
 
-  const newConfig = parts.join('\n\n') + '\n';
-  writeSshConfig(newConfig);
+  throw new Error(`${MANAGED_CONFIG_PATH} was modified by another window while updating it`);
 }
 
 /**
- * Sets the SSH config entry in the managed section.
- * Only keeps a single entry to avoid accumulating stale configs.
+ * Removes entries from the managed file. ~/.ssh/config is left alone, as it
+ * only needs to include the managed file once an entry is written.
+ * @param shouldRemove - Selects the entries to remove
+ */
+async function removeManagedEntries(shouldRemove: (managed: ManagedSshEntry) => boolean): Promise<void> {
+  if (!parseManagedEntries(await readFileIfExists(MANAGED_CONFIG_PATH)).some(shouldRemove)) {
+    return;
+  }
+  await updateManagedEntries((entries) => entries.filter((managed) => !shouldRemove(managed)));
+}
+
+/**
+ * Sets the SSH config entry for a codespace in the managed file, and makes
+ * ~/.ssh/config include that file.
+ * Entries for other codespaces are kept so several windows can be connected at once.
+ * @param codespaceName - The codespace the entry connects to
  * @param entry - The SSH config entry to set
  */
-export function setEntry(entry: SshConfigEntry): void {
-  updateManagedSection([entry]);
+export async function setEntry(codespaceName: string, entry: SshConfigEntry): Promise<void> {
+  await ensureSshDir();
+  const legacyEntries = await ensureInclude();
+  await updateManagedEntries(
+    (entries) => [
+      ...entries.filter((managed) => managed.codespaceName !== codespaceName && managed.entry.host !== entry.host),
+      { codespaceName, entry },
+    ],
+    legacyEntries
+  );
 }
 
 /**
- * Clears all SSH config entries from the managed section.
+ * Removes the SSH config entry for a codespace from the managed file.
+ * @param codespaceName - The codespace whose entry to remove
  */
-export function clearEntries(): void {
-  updateManagedSection([]);
+export async function removeEntry(codespaceName: string): Promise<void> {
+  await removeManagedEntries((managed) => managed.codespaceName === codespaceName);
 }
 
 /**
- * Returns the SSH host from the managed section, if any.
- * Used to verify the current SSH remote matches a codespace we connected to.
+ * Drops entries for codespaces that no longer exist.
+ * @param existingCodespaceNames - Names of all of the user's codespaces
  */
-export function getManagedHost(): string | undefined {
-  const config = readSshConfig();
-  const startIdx = config.indexOf(MARKER_START);
-  const endIdx = config.indexOf(MARKER_END);
-  if (startIdx === -1 || endIdx === -1) {
-    return undefined;
-  }
-  const managed = config.substring(startIdx, endIdx);
-  const match = managed.match(/Host\s+(\S+)/);
-  return match ? match[1] : undefined;
+export async function reconcileEntries(existingCodespaceNames: string[]): Promise<void> {
+  const existing = new Set(existingCodespaceNames);
+  await removeManagedEntries((managed) => !existing.has(managed.codespaceName));
+}
+
+/**
+ * Returns the codespace a managed SSH host connects to, if any.
+ * Used to find which codespace the current SSH remote belongs to.
+ * @param host - The SSH host alias
+ */
+export function getManagedCodespaceName(host: string): string | undefined {
+  return readManagedEntries().find((managed) => managed.entry.host === host)?.codespaceName;
 }
 
 /**
@@ -254,7 +525,8 @@ export function getManagedHost(): string | undefined {
  */
 export function identityFileExists(identityFile: string): boolean {
   // Expand ~ to home directory
-  const expandedPath = identityFile.replace(/^~/, os.homedir());
+  const unquoted = parseSshArguments(identityFile)[0] ?? identityFile;
+  const expandedPath = unquoted.replace(/^~/, os.homedir());
   return fs.existsSync(expandedPath);
 }
 
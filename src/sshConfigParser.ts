@@ -0,0 +1,117 @@
+/**
+ * A line of an SSH config file. Lines keep their original text so that
+ * a parsed config can be written back unchanged.
+ */
+export interface SshConfigLine {
+  /** Original text of the line */
+  raw: string;
+  /** The keyword as written, for directive lines */
+  keyword?: string;
+  /** The arguments as written (quotes preserved), for directive lines */
+  value?: string;
+}
+
+/**
+ * A run of lines governed by the same Host or Match line.
+ */
+export interface SshConfigSection {
+  /** The Host or Match line starting the section; undefined for the lines before the first one */
+  header?: SshConfigLine;
+  lines: SshConfigLine[];
+}
+
+export interface SshConfig {
+  /** The first section is always the global section without a header */
+  sections: SshConfigSection[];
+}
+
+/**
+ * Parses a single line of SSH config.
+ * Keywords and arguments are separated by whitespace and/or a single `=`.
+ */
+function parseLine(raw: string): SshConfigLine {
+  const trimmed = raw.trim();
+  if (!trimmed || trimmed.startsWith('#')) {
+    return { raw };
+  }
+
+  const match = trimmed.match(/^([^\s=]+)(?:\s*=\s*|\s+)(.*)$/);
+  if (!match) {
+    // A keyword without arguments
+    return { raw, keyword: trimmed, value: '' };
+  }
+  return { raw, keyword: match[1], value: match[2].trim() };
+}
+
+function isSectionHeader(line: SshConfigLine): boolean {
+  const keyword = line.keyword?.toLowerCase();
+  return keyword === 'host' || keyword === 'match';
+}
+
+/**
+ * Parses SSH config text into sections, keeping comments, blank lines,
+ * unknown directives, Include and Match lines as written.
+ * @param text - The SSH config text
+ */
+export function parseSshConfig(text: string): SshConfig {
+  const sections: SshConfigSection[] = [{ lines: [] }];
+
+  for (const raw of text.split('\n')) {
+    const line = parseLine(raw);
+    if (isSectionHeader(line)) {
+      sections.push({ header: line, lines: [] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  return { sections };
+}
+
+/**
+ * Writes a parsed SSH config back to text. Unmodified configs round-trip exactly.
+ * @param config - The parsed SSH config
+ */
+export function stringifySshConfig(config: SshConfig): string {
+  const lines: string[] = [];
+  for (const section of config.sections) {
+    if (section.header) {
+      lines.push(section.header.raw);
+    }
+    lines.push(...section.lines.map((line) => line.raw));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Splits directive arguments into words, honoring double-quoted arguments.
+ * @param value - The arguments as written
+ * @returns The unquoted arguments
+ */
+export function parseSshArguments(value: string): string[] {
+  const args: string[] = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    args.push(match[1] ?? match[2]);
+  }
+  return args;
+}
+
+/**
+ * Creates a directive line.
+ * @param keyword - The directive keyword
+ * @param value - The arguments, quoted as needed
+ * @param indent - Leading whitespace (default: two spaces, as used inside Host blocks)
+ */
+export function createSshConfigLine(keyword: string, value: string, indent = '  '): SshConfigLine {
+  return { raw: `${indent}${keyword} ${value}`, keyword, value };
+}
+
+/**
+ * Returns the directive lines of a section, skipping comments and blank lines.
+ * @param section - The section to read
+ */
+export function getDirectives(section: SshConfigSection): Required<SshConfigLine>[] {
+  return section.lines.filter((line): line is Required<SshConfigLine> => line.keyword !== undefined);
+}
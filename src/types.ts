@@ -33,6 +33,8 @@ export interface Codespace {
   displayName: string;
   state: CodespaceState;
   repository: string;
+  /** Created from a template and not yet published to a repository of its own */
+  unpublished: boolean;
   owner: string;
   branch: string;
   lastUsedAt: string;
@@ -41,6 +43,18 @@ export interface Codespace {
   gitStatus: GitStatus;
   idleTimeoutMinutes?: number;
   machineInfo?: MachineInfo;
+  location?: string;
+  devcontainerPath?: string;
+  keepAliveUntil?: string;
+}
+
+export type PortVisibility = 'private' | 'org' | 'public';
+
+export interface ForwardedPort {
+  sourcePort: number;
+  label: string;
+  visibility: PortVisibility;
+  browseUrl: string;
 }
 
 export type GhCliErrorType =
@@ -48,6 +62,7 @@ export type GhCliErrorType =
   | 'NOT_AUTHENTICATED'
   | 'SCOPE_REQUIRED'
   | 'COMMAND_FAILED'
+  | 'CODESPACE_FAILED'
   | 'PARSE_ERROR';
 
 export class GhCliError extends Error {
@@ -73,6 +88,13 @@ export interface SshConfigEntry {
   controlMaster?: string;
   controlPath?: string;
   controlPersist?: string;
+  /** Directives without a dedicated field, in the order they appeared */
+  otherOptions?: SshConfigOption[];
+}
+
+export interface SshConfigOption {
+  keyword: string;
+  value: string;
 }
 
 export interface CodespaceListResult {
@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import * as ghCli from '../ghCli';
+import { CodespaceState } from '../types';
+import { ensureError } from '../utils/errors';
+import { log } from '../extension';
+
+export const LOG_SCHEME = 'openspaces-logs';
+
+/**
+ * States in which the logs cannot be read yet. `gh codespace logs` connects over SSH,
+ * which needs a running codespace, so the document waits for it to become available.
+ */
+const WAIT_STATES: CodespaceState[] = ['Starting', 'Provisioning', 'Rebuilding'];
+
+/**
+ * Builds the virtual document URI for a codespace's logs.
+ * @param codespaceName - The name of the codespace
+ */
+export function getLogUri(codespaceName: string): vscode.Uri {
+  return vscode.Uri.from({ scheme: LOG_SCHEME, path: `/${codespaceName}.log` });
+}
+
+function getCodespaceName(uri: vscode.Uri): string {
+  return uri.path.replace(/^\//, '').replace(/\.log$/, '');
+}
+
+export class CodespaceLogProvider implements vscode.TextDocumentContentProvider {
+  private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this._onDidChange.event;
+
+  private waitTimers = new Map<string, NodeJS.Timeout>();
+  private waitInterval = 5000;
+  private loading = new Map<string, Promise<string>>();
+
+  private closeListener: vscode.Disposable;
+
+  constructor() {
+    this.closeListener = vscode.workspace.onDidCloseTextDocument((document) => {
+      if (document.uri.scheme === LOG_SCHEME) {
+        this.stopWaiting(document.uri);
+      }
+    });
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    // Reading the logs over SSH can be slow; share a load that is still running
+    const key = uri.toString();
+    let content = this.loading.get(key);
+    if (!content) {
+      content = this.loadLogs(uri).finally(() => this.loading.delete(key));
+      this.loading.set(key, content);
+    }
+    return content;
+  }
+
+  private async loadLogs(uri: vscode.Uri): Promise<string> {
+    const codespaceName = getCodespaceName(uri);
+
+    try {
+      const codespace = await ghCli.getCodespace(codespaceName);
+      if (codespace && WAIT_STATES.includes(codespace.state)) {
+        this.scheduleRefresh(uri);
+        return vscode.l10n.t(
+          '{0} is not running yet. Its logs can only be read once it is running, and will appear here when it is.',
+          codespace.displayName
+        );
+      }
+
+      this.stopWaiting(uri);
+      return await ghCli.getCodespaceLogs(codespaceName);
+    } catch (err) {
+      const error = ensureError(err);
+      log(`Failed to load logs for codespace ${codespaceName}`, error);
+      this.stopWaiting(uri);
+      return vscode.l10n.t('Failed to load logs: {0}', error.message);
+    }
+  }
+
+  /**
+   * Checks the codespace state again once the wait interval has passed.
+   * Scheduled after each load completes, so loads never overlap.
+   */
+  private scheduleRefresh(uri: vscode.Uri): void {
+    const key = uri.toString();
+    this.stopWaiting(uri);
+
+    this.waitTimers.set(
+      key,
+      setTimeout(() => {
+        this.waitTimers.delete(key);
+        // The document may have been closed while its logs were loading
+        if (vscode.workspace.textDocuments.some((document) => document.uri.toString() === key)) {
+          this._onDidChange.fire(uri);
+        }
+      }, this.waitInterval)
+    );
+  }
+
+  private stopWaiting(uri: vscode.Uri): void {
+    const key = uri.toString();
+    const timer = this.waitTimers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this.waitTimers.delete(key);
+    }
+  }
+
+  dispose(): void {
+    for (const timer of this.waitTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.waitTimers.clear();
+    this.closeListener.dispose();
+    this._onDidChange.dispose();
+  }
+}
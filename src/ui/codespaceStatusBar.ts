@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import * as ghCli from '../ghCli';
+import * as recentCodespaces from '../recentCodespaces';
+import { Codespace } from '../types';
+import { ensureError } from '../utils/errors';
+import { getIdleTimeRemaining } from '../utils/formatting';
+import { getStateDescription } from './treeItems';
+import { log } from '../extension';
+
+/**
+ * Status bar entry showing the connected codespace, or offering to
+ * reconnect to the most recently used one when the window is local.
+ */
+export class CodespaceStatusBar implements vscode.Disposable {
+  private item: vscode.StatusBarItem;
+  private codespace: Codespace | undefined;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private pollInterval = 60000;
+
+  constructor(
+    private readonly state: vscode.Memento,
+    private readonly connectedCodespaceName?: string
+  ) {
+    this.item = vscode.window.createStatusBarItem('openSpaces.status', vscode.StatusBarAlignment.Left, 100);
+    this.item.name = 'Open Spaces';
+
+    if (connectedCodespaceName) {
+      this.item.command = 'openSpaces.codespaceActions';
+      this.renderConnected();
+      void this.update();
+      this.pollTimer = setInterval(() => void this.update(), this.pollInterval);
+    } else {
+      this.renderLocal();
+    }
+  }
+
+  /**
+   * The connected codespace as of the last update.
+   */
+  getCodespace(): Codespace | undefined {
+    return this.codespace;
+  }
+
+  /**
+   * Reloads the connected codespace's state and idle timeout.
+   */
+  async update(): Promise<void> {
+    if (!this.connectedCodespaceName) {
+      this.renderLocal();
+      return;
+    }
+
+    try {
+      const codespace = await ghCli.getCodespace(this.connectedCodespaceName);
+      this.codespace = codespace ?? undefined;
+    } catch (err) {
+      log(`Failed to update status bar for codespace ${this.connectedCodespaceName}`, ensureError(err));
+    }
+    this.renderConnected();
+  }
+
+  private renderConnected(): void {
+    const codespace = this.codespace;
+    if (!codespace) {
+      this.item.text = `$(remote) ${this.connectedCodespaceName}`;
+      this.item.tooltip = vscode.l10n.t('Connected to codespace {0}', this.connectedCodespaceName ?? '');
+      this.item.show();
+      return;
+    }
+
+    const parts = [codespace.displayName, getStateDescription(codespace.state)];
+    const idleInfo = codespace.state === 'Available' && codespace.idleTimeoutMinutes
+      ? getIdleTimeRemaining(codespace.lastUsedAt, codespace.idleTimeoutMinutes)
+      : null;
+    if (idleInfo) {
+      parts.push(idleInfo.text);
+    }
+
+    this.item.text = `$(remote) ${parts.join(' • ')}`;
+    this.item.backgroundColor = idleInfo?.isLow
+      ? new vscode.ThemeColor('statusBarItem.warningBackground')
+      : undefined;
+
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${codespace.displayName}**\n\n`);
+    tooltip.appendMarkdown(`- ${vscode.l10n.t('Repository: {0}', codespace.unpublished ? vscode.l10n.t('Unpublished') : codespace.repository)}\n`);
+    tooltip.appendMarkdown(`- ${vscode.l10n.t('Branch: {0}', codespace.branch || vscode.l10n.t('N/A'))}\n`);
+    tooltip.appendMarkdown(`\n${vscode.l10n.t('Click for codespace actions')}`);
+    this.item.tooltip = tooltip;
+    this.item.show();
+  }
+
+  private renderLocal(): void {
+    // Only offer to reconnect from a local window
+    const last = recentCodespaces.getRecent(this.state)[0];
+    if (!last || vscode.env.remoteName) {
+      this.item.hide();
+      return;
+    }
+
+    this.item.text = `$(remote) ${vscode.l10n.t('Reconnect to {0}', last.displayName)}`;
+    this.item.tooltip = last.repository
+      ? vscode.l10n.t('Reconnect to codespace {0} ({1})', last.displayName, last.repository)
+      : vscode.l10n.t('Reconnect to codespace {0}', last.displayName);
+    this.item.command = 'openSpaces.reconnect';
+    this.item.show();
+  }
+
+  dispose(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.item.dispose();
+  }
+}
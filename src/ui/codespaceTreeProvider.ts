@@ -1,13 +1,21 @@
 import * as vscode from 'vscode';
 import * as ghCli from '../ghCli';
 import * as codespaceManager from '../codespaceManager';
+import * as keepAlive from '../keepAlive';
+import * as portForwarding from '../portForwarding';
+import * as recentCodespaces from '../recentCodespaces';
+import * as sshConfigManager from '../sshConfigManager';
 import { Codespace, GhCliError } from '../types';
-import { isTransitionalState } from '../constants';
+import { RECENT_TREE_LIMIT, isTransitionalState } from '../constants';
 import { ensureError } from '../utils/errors';
+import { log } from '../extension';
 import {
+  RecentTreeItem,
   RepositoryTreeItem,
   CodespaceTreeItem,
   CodespaceDetailItem,
+  PortsTreeItem,
+  PortTreeItem,
   GhNotInstalledTreeItem,
   AuthRequiredTreeItem,
   ScopeRequiredTreeItem,
@@ -17,9 +25,12 @@ import {
 } from './treeItems';
 
 type TreeItem =
+  | RecentTreeItem
   | RepositoryTreeItem
   | CodespaceTreeItem
   | CodespaceDetailItem
+  | PortsTreeItem
+  | PortTreeItem
   | GhNotInstalledTreeItem
   | AuthRequiredTreeItem
   | ScopeRequiredTreeItem
@@ -48,7 +59,10 @@ export class CodespaceTreeProvider implements vscode.TreeDataProvider<TreeItem>
 
   private connectedCodespaceName: string | undefined;
 
-  constructor() {}
+  /**
+   * @param state - Global state holding the recently used codespaces
+   */
+  constructor(private readonly state: vscode.Memento) {}
 
   setConnectedCodespace(name: string): void {
     this.connectedCodespaceName = name;
@@ -92,39 +106,15 @@ export class CodespaceTreeProvider implements vscode.TreeDataProvider<TreeItem>
         this.codespaces = cs ? [cs] : [];
       } else {
         this.codespaces = await ghCli.listCodespaces();
+        await this.reconcileSshConfig();
       }
 
-      // Fetch additional info for running codespaces (idle timeout, machine specs)
-      const runningCodespaces = this.codespaces.filter((cs) => cs.state === 'Available');
-      await Promise.all(
-        runningCodespaces.map(async (cs) => {
-          const [idleInfo, machineInfo] = await Promise.all([
-            ghCli.getCodespaceIdleTimeout(cs.name),
-            ghCli.getCodespaceMachineInfo(cs.name),
-          ]);
-          if (idleInfo) {
-            cs.idleTimeoutMinutes = idleInfo.idleTimeoutMinutes;
-            // Update lastUsedAt if the view command returns a more recent value
-            if (idleInfo.lastUsedAt) {
-              cs.lastUsedAt = idleInfo.lastUsedAt;
-            }
-          }
-          if (machineInfo) {
-            cs.machineInfo = machineInfo;
-          }
-        })
-      );
-
-      // Fetch machine info for stopped codespaces too
-      const stoppedCodespaces = this.codespaces.filter((cs) => cs.state === 'Shutdown');
-      await Promise.all(
-        stoppedCodespaces.map(async (cs) => {
-          const machineInfo = await ghCli.getCodespaceMachineInfo(cs.name);
-          if (machineInfo) {
-            cs.machineInfo = machineInfo;
-          }
-        })
-      );
+      // Idle timeout, machine specs and region come with the list; keep alive is tracked locally
+      for (const cs of this.codespaces) {
+        if (cs.state === 'Available') {
+          cs.keepAliveUntil = keepAlive.getExpiresAt(cs.name)?.toISOString();
+        }
+      }
 
       this.error = null;
       this.loading = false;
@@ -137,6 +127,18 @@ export class CodespaceTreeProvider implements vscode.TreeDataProvider<TreeItem>
     }
   }
 
+  /**
+   * Drops managed SSH config entries for codespaces that were deleted.
+   * Relies on the list being complete, as entries of unlisted codespaces are dropped.
+   */
+  private async reconcileSshConfig(): Promise<void> {
+    try {
+      await sshConfigManager.reconcileEntries(this.codespaces.map((cs) => cs.name));
+    } catch (err) {
+      log('Failed to reconcile SSH config entries', ensureError(err));
+    }
+  }
+
   private startPollingIfNeeded(): void {
     if (this.isPolling) {
       return;
@@ -200,7 +202,7 @@ export class CodespaceTreeProvider implements vscode.TreeDataProvider<TreeItem>
   }
 
   getChildren(element?: TreeItem): Thenable<TreeItem[]> {
-    if (element instanceof RepositoryTreeItem) {
+    if (element instanceof RecentTreeItem || element instanceof RepositoryTreeItem) {
       return Promise.resolve(element.getChildren());
     }
 
@@ -208,6 +210,10 @@ export class CodespaceTreeProvider implements vscode.TreeDataProvider<TreeItem>
       return Promise.resolve(element.getChildren());
     }
 
+    if (element instanceof PortsTreeItem) {
+      return this.getPortChildren(element.codespace);
+    }
+
     if (element) {
       return Promise.resolve([]);
     }
@@ -245,10 +251,10 @@ export class CodespaceTreeProvider implements vscode.TreeDataProvider<TreeItem>
       );
     }
 
-    // Group codespaces by repository
+    // Group codespaces by repository (unpublished codespaces share the empty key)
     const repoMap = new Map<string, Codespace[]>();
     for (const cs of this.codespaces) {
-      const repo = cs.repository || 'Unknown';
+      const repo = cs.unpublished ? '' : cs.repository;
       const existing = repoMap.get(repo);
       if (existing) {
         existing.push(cs);
@@ -268,8 +274,11 @@ export class CodespaceTreeProvider implements vscode.TreeDataProvider<TreeItem>
       });
     }
 
-    // Sort repositories: those with running codespaces first, then alphabetically
+    // Sort repositories: those with running codespaces first, then alphabetically,
+    // with the unpublished group last
     const sortedRepos = [...repoMap.entries()].sort((a, b) => {
+      if (!a[0] && b[0]) return 1;
+      if (a[0] && !b[0]) return -1;
       const aHasRunning = a[1].some((cs) => cs.state === 'Available');
       const bHasRunning = b[1].some((cs) => cs.state === 'Available');
       if (aHasRunning && !bHasRunning) return -1;
@@ -277,15 +286,51 @@ export class CodespaceTreeProvider implements vscode.TreeDataProvider<TreeItem>
       return a[0].localeCompare(b[0]);
     });
 
-    return Promise.resolve(
-      sortedRepos.map(([repo, codespaces]) => new RepositoryTreeItem(repo, codespaces))
-    );
+    const items: TreeItem[] = sortedRepos.map(([repo, codespaces]) => new RepositoryTreeItem(repo, codespaces));
+
+    // Show recently connected codespaces that still exist at the top
+    const recent = recentCodespaces
+      .getRecent(this.state)
+      .map((entry) => this.codespaces.find((cs) => cs.name === entry.name))
+      .filter((cs): cs is Codespace => cs !== undefined)
+      .slice(0, RECENT_TREE_LIMIT);
+    if (recent.length > 0) {
+      items.unshift(new RecentTreeItem(recent));
+    }
+
+    return Promise.resolve(items);
+  }
+
+  private async getPortChildren(codespace: Codespace): Promise<TreeItem[]> {
+    try {
+      const ports = await ghCli.listPorts(codespace.name);
+      if (ports.length === 0) {
+        return [new CodespaceDetailItem('info', vscode.l10n.t('No forwarded ports'), 'ports')];
+      }
+      return ports.map(
+        (port) =>
+          new PortTreeItem(codespace, port, portForwarding.getLocalPort(codespace.name, port.sourcePort))
+      );
+    } catch (err) {
+      return [new ErrorTreeItem(ensureError(err).message)];
+    }
   }
 
   getCodespaceByName(name: string): Codespace | undefined {
     return this.codespaces.find((cs) => cs.name === name);
   }
 
+  /**
+   * Updates a codespace's display name in place without reloading from the API.
+   */
+  updateDisplayName(name: string, displayName: string): void {
+    const codespace = this.getCodespaceByName(name);
+    if (codespace) {
+      codespace.displayName = displayName;
+      this._onDidChangeTreeData.fire();
+    }
+  }
+
   dispose(): void {
     this.stopPolling();
     this.stopBackgroundRefresh();
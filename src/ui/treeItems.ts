@@ -1,6 +1,14 @@
 import * as vscode from 'vscode';
-import { Codespace, CodespaceState } from '../types';
-import { formatBytes, formatMachineSpecs, getTimeAgo, getIdleTimeRemaining } from '../utils/formatting';
+import { Codespace, CodespaceState, ForwardedPort } from '../types';
+import {
+  formatBytes,
+  formatLocation,
+  formatMachineSpecs,
+  formatPortVisibility,
+  getTimeAgo,
+  getIdleTimeRemaining,
+  getKeepAliveRemaining,
+} from '../utils/formatting';
 
 function getStateIcon(state: CodespaceState): vscode.ThemeIcon {
   switch (state) {
@@ -24,7 +32,7 @@ function getStateIcon(state: CodespaceState): vscode.ThemeIcon {
   }
 }
 
-function getStateDescription(state: CodespaceState): string {
+export function getStateDescription(state: CodespaceState): string {
   switch (state) {
     case 'Available':
       return vscode.l10n.t('Running');
@@ -53,15 +61,35 @@ function getStateDescription(state: CodespaceState): string {
   }
 }
 
+export class RecentTreeItem extends vscode.TreeItem {
+  /**
+   * @param codespaces - The recently connected codespaces, most recent first
+   */
+  constructor(public readonly codespaces: Codespace[]) {
+    super(vscode.l10n.t('Recent'), vscode.TreeItemCollapsibleState.Expanded);
+
+    this.iconPath = new vscode.ThemeIcon('history');
+    this.contextValue = 'recent';
+  }
+
+  getChildren(): CodespaceTreeItem[] {
+    return this.codespaces.map((cs) => new CodespaceTreeItem(cs));
+  }
+}
+
 export class RepositoryTreeItem extends vscode.TreeItem {
+  /**
+   * @param repository - The repository in owner/name format, or empty for unpublished codespaces
+   * @param codespaces - The codespaces belonging to the repository
+   */
   constructor(
     public readonly repository: string,
     public readonly codespaces: Codespace[]
   ) {
-    super(repository, vscode.TreeItemCollapsibleState.Expanded);
+    super(repository || vscode.l10n.t('Unpublished'), vscode.TreeItemCollapsibleState.Expanded);
 
-    this.iconPath = new vscode.ThemeIcon('repo');
-    this.contextValue = 'repository';
+    this.iconPath = new vscode.ThemeIcon(repository ? 'repo' : 'repo-template');
+    this.contextValue = repository ? 'repository' : 'repository-unpublished';
     this.description = codespaces.length === 1
       ? vscode.l10n.t('{0} codespace', codespaces.length)
       : vscode.l10n.t('{0} codespaces', codespaces.length);
@@ -82,13 +110,17 @@ export class CodespaceTreeItem extends vscode.TreeItem {
     this.description = connected ? vscode.l10n.t('Connected') : getStateDescription(codespace.state);
     this.iconPath = getStateIcon(codespace.state);
     this.tooltip = this.createTooltip();
-    this.contextValue = connected ? 'codespace-connected' : `codespace-${codespace.state.toLowerCase()}`;
+    const baseContext = connected ? 'codespace-connected' : `codespace-${codespace.state.toLowerCase()}`;
+    const publishContext = codespace.unpublished ? `${baseContext}-unpublished` : baseContext;
+    // Lets the menu offer to start or stop keep alive depending on whether it is on
+    const keepingAlive = codespace.state === 'Available' && !!codespace.keepAliveUntil;
+    this.contextValue = keepingAlive ? `${publishContext}-keepalive` : publishContext;
   }
 
   private createTooltip(): vscode.MarkdownString {
     const md = new vscode.MarkdownString();
     md.appendMarkdown(`**${this.codespace.displayName}**\n\n`);
-    md.appendMarkdown(`- ${vscode.l10n.t('Repository: {0}', this.codespace.repository)}\n`);
+    md.appendMarkdown(`- ${vscode.l10n.t('Repository: {0}', this.codespace.unpublished ? vscode.l10n.t('Unpublished') : this.codespace.repository)}\n`);
     md.appendMarkdown(`- ${vscode.l10n.t('Branch: {0}', this.codespace.branch || vscode.l10n.t('N/A'))}\n`);
     md.appendMarkdown(`- ${vscode.l10n.t('State: {0}', this.codespace.state)}\n`);
     if (this.codespace.machineInfo) {
@@ -99,11 +131,16 @@ export class CodespaceTreeItem extends vscode.TreeItem {
     } else {
       md.appendMarkdown(`- ${vscode.l10n.t('Machine: {0}', this.codespace.machineName || vscode.l10n.t('N/A'))}\n`);
     }
+    if (this.codespace.location) {
+      md.appendMarkdown(`- ${vscode.l10n.t('Location: {0}', formatLocation(this.codespace.location))}\n`);
+    }
     if (this.codespace.lastUsedAt) {
       const lastUsed = new Date(this.codespace.lastUsedAt);
       md.appendMarkdown(`- ${vscode.l10n.t('Last used: {0}', lastUsed.toLocaleString())}\n`);
     }
-    if (this.codespace.state === 'Available' && this.codespace.idleTimeoutMinutes) {
+    if (this.codespace.state === 'Available' && this.codespace.keepAliveUntil) {
+      md.appendMarkdown(`- ${getKeepAliveRemaining(this.codespace.keepAliveUntil)}\n`);
+    } else if (this.codespace.state === 'Available' && this.codespace.idleTimeoutMinutes) {
       const idleInfo = getIdleTimeRemaining(
         this.codespace.lastUsedAt,
         this.codespace.idleTimeoutMinutes
@@ -121,10 +158,14 @@ export class CodespaceTreeItem extends vscode.TreeItem {
     return md;
   }
 
-  getChildren(): CodespaceDetailItem[] {
-    const children: CodespaceDetailItem[] = [];
+  getChildren(): (CodespaceDetailItem | PortsTreeItem)[] {
+    const children: (CodespaceDetailItem | PortsTreeItem)[] = [];
 
-    children.push(new CodespaceDetailItem('repo', this.codespace.repository, 'repo'));
+    children.push(
+      this.codespace.unpublished
+        ? new CodespaceDetailItem('repo-template', vscode.l10n.t('Not published to a repository'), 'repo')
+        : new CodespaceDetailItem('repo', this.codespace.repository, 'repo')
+    );
 
     if (this.codespace.branch) {
       children.push(new CodespaceDetailItem('git-branch', this.codespace.branch, 'branch'));
@@ -182,14 +223,31 @@ export class CodespaceTreeItem extends vscode.TreeItem {
       );
     }
 
+    if (this.codespace.devcontainerPath) {
+      children.push(
+        new CodespaceDetailItem('file-code', this.codespace.devcontainerPath, 'devcontainer')
+      );
+    }
+
+    if (this.codespace.location) {
+      children.push(
+        new CodespaceDetailItem('globe', formatLocation(this.codespace.location), 'location')
+      );
+    }
+
     if (this.codespace.lastUsedAt) {
       const lastUsed = new Date(this.codespace.lastUsedAt);
       const timeAgo = getTimeAgo(lastUsed);
       children.push(new CodespaceDetailItem('clock', timeAgo, 'lastUsed'));
     }
 
-    // Show idle timeout remaining for running codespaces
-    if (this.codespace.state === 'Available' && this.codespace.idleTimeoutMinutes) {
+    // Show idle timeout remaining for running codespaces, or the keep alive countdown
+    // while the idle timeout is being held off
+    if (this.codespace.state === 'Available' && this.codespace.keepAliveUntil) {
+      children.push(
+        new CodespaceDetailItem('pulse', getKeepAliveRemaining(this.codespace.keepAliveUntil), 'idleTimeout')
+      );
+    } else if (this.codespace.state === 'Available' && this.codespace.idleTimeoutMinutes) {
       const idleInfo = getIdleTimeRemaining(
         this.codespace.lastUsedAt,
         this.codespace.idleTimeoutMinutes
@@ -213,6 +271,11 @@ export class CodespaceTreeItem extends vscode.TreeItem {
       }
     }
 
+    // Ports can only be listed while the codespace is running
+    if (this.codespace.state === 'Available') {
+      children.push(new PortsTreeItem(this.codespace));
+    }
+
     return children;
   }
 }
@@ -230,6 +293,52 @@ export class CodespaceDetailItem extends vscode.TreeItem {
   }
 }
 
+export class PortsTreeItem extends vscode.TreeItem {
+  constructor(public readonly codespace: Codespace) {
+    super(vscode.l10n.t('Ports'), vscode.TreeItemCollapsibleState.Collapsed);
+
+    this.iconPath = new vscode.ThemeIcon('plug');
+    this.contextValue = 'ports';
+  }
+}
+
+export class PortTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly codespace: Codespace,
+    public readonly port: ForwardedPort,
+    public readonly localPort?: number
+  ) {
+    super(
+      port.label ? `${port.sourcePort} (${port.label})` : String(port.sourcePort),
+      vscode.TreeItemCollapsibleState.None
+    );
+
+    const visibility = formatPortVisibility(port.visibility);
+    this.description = localPort ? `${visibility} • localhost:${localPort}` : visibility;
+    this.iconPath = localPort
+      ? new vscode.ThemeIcon('radio-tower', new vscode.ThemeColor('testing.iconPassed'))
+      : new vscode.ThemeIcon(port.visibility === 'private' ? 'lock' : 'globe');
+    this.tooltip = this.createTooltip(visibility);
+    this.contextValue = localPort ? 'port-forwarded' : 'port';
+  }
+
+  private createTooltip(visibility: string): vscode.MarkdownString {
+    const md = new vscode.MarkdownString();
+    md.appendMarkdown(`**${vscode.l10n.t('Port {0}', this.port.sourcePort)}**\n\n`);
+    if (this.port.label) {
+      md.appendMarkdown(`- ${vscode.l10n.t('Label: {0}', this.port.label)}\n`);
+    }
+    md.appendMarkdown(`- ${vscode.l10n.t('Visibility: {0}', visibility)}\n`);
+    if (this.port.browseUrl) {
+      md.appendMarkdown(`- ${vscode.l10n.t('URL: {0}', this.port.browseUrl)}\n`);
+    }
+    if (this.localPort) {
+      md.appendMarkdown(`- ${vscode.l10n.t('Forwarded to localhost:{0}', this.localPort)}\n`);
+    }
+    return md;
+  }
+}
+
 export class GhNotInstalledTreeItem extends vscode.TreeItem {
   constructor() {
     super(vscode.l10n.t('GitHub CLI not installed'), vscode.TreeItemCollapsibleState.None);
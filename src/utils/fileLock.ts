@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+
+const LOCK_RETRY_DELAY_MS = 50;
+const MAX_LOCK_ATTEMPTS = 100;
+// A lock this old was left behind by a process that exited while holding it
+const LOCK_STALE_MS = 10000;
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Takes the lock by creating `<file>.lock`, which fails if another process holds it.
+ */
+async function acquireLock(lockPath: string): Promise<fs.promises.FileHandle> {
+  for (let attempt = 1; attempt <= MAX_LOCK_ATTEMPTS; attempt++) {
+    try {
+      return await fs.promises.open(lockPath, 'wx', 0o600);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw err;
+      }
+    }
+
+    try {
+      if (Date.now() - (await fs.promises.stat(lockPath)).mtimeMs > LOCK_STALE_MS) {
+        await fs.promises.rm(lockPath, { force: true });
+        continue;
+      }
+    } catch {
+      // Released in the meantime
+      continue;
+    }
+    await delay(LOCK_RETRY_DELAY_MS);
+  }
+
+  throw new Error(`Timed out waiting for the lock on ${lockPath}`);
+}
+
+/**
+ * Runs a task while holding an exclusive lock on a file, so that read-modify-write
+ * updates from other windows and processes cannot interleave.
+ * @param filePath - The file to lock
+ * @param task - The task to run while holding the lock
+ * @returns What the task returns
+ * @throws {Error} If the lock is held by someone else for too long
+ */
+export async function withFileLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  const lock = await acquireLock(lockPath);
+  try {
+    return await task();
+  } finally {
+    await lock.close();
+    await fs.promises.rm(lockPath, { force: true });
+  }
+}
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { MachineInfo } from '../types';
+import { MachineInfo, PortVisibility } from '../types';
 
 /**
  * Formats bytes into a human-readable string (MB or GB).
@@ -30,6 +30,53 @@ export function formatMachineSpecs(machineInfo: MachineInfo): string {
   return parts.join(' • ') || machineInfo.displayName || vscode.l10n.t('Unknown');
 }
 
+/**
+ * Formats a duration in minutes using the largest whole unit (days, hours, or minutes).
+ */
+export function formatDuration(minutes: number): string {
+  if (minutes >= 1440 && minutes % 1440 === 0) {
+    const days = minutes / 1440;
+    return days === 1 ? vscode.l10n.t('{0} day', days) : vscode.l10n.t('{0} days', days);
+  }
+  if (minutes >= 60 && minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return hours === 1 ? vscode.l10n.t('{0} hour', hours) : vscode.l10n.t('{0} hours', hours);
+  }
+  return minutes === 1 ? vscode.l10n.t('{0} minute', minutes) : vscode.l10n.t('{0} minutes', minutes);
+}
+
+/**
+ * Returns the human-readable name of a codespace region. Region names are case-insensitive.
+ */
+export function formatLocation(location: string): string {
+  switch (location.toLowerCase()) {
+    case 'eastus':
+      return vscode.l10n.t('East US');
+    case 'westus2':
+      return vscode.l10n.t('West US 2');
+    case 'westeurope':
+      return vscode.l10n.t('West Europe');
+    case 'southeastasia':
+      return vscode.l10n.t('Southeast Asia');
+    default:
+      return location;
+  }
+}
+
+/**
+ * Returns the human-readable label for a port visibility.
+ */
+export function formatPortVisibility(visibility: PortVisibility): string {
+  switch (visibility) {
+    case 'public':
+      return vscode.l10n.t('Public');
+    case 'org':
+      return vscode.l10n.t('Organization');
+    default:
+      return vscode.l10n.t('Private');
+  }
+}
+
 /**
  * Returns a human-readable "time ago" string.
  */
@@ -95,3 +142,28 @@ export function getIdleTimeRemaining(
 
   return { text: vscode.l10n.t('Auto-stop in {0}h {1}m', hours, mins), isLow };
 }
+
+/**
+ * Calculates how long keep alive will keep a codespace running.
+ * @param keepAliveUntil - ISO timestamp when keep alive ends
+ */
+export function getKeepAliveRemaining(keepAliveUntil: string): string {
+  const remainingMins = Math.ceil((new Date(keepAliveUntil).getTime() - Date.now()) / 60000);
+
+  if (remainingMins <= 0) {
+    return vscode.l10n.t('Keep alive ending');
+  }
+
+  if (remainingMins < 60) {
+    return vscode.l10n.t('Kept alive for {0}m', remainingMins);
+  }
+
+  const hours = Math.floor(remainingMins / 60);
+  const mins = remainingMins % 60;
+
+  if (mins === 0) {
+    return vscode.l10n.t('Kept alive for {0}h', hours);
+  }
+
+  return vscode.l10n.t('Kept alive for {0}h {1}m', hours, mins);
+}